@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { Loader2, Eye, EyeOff, Download as DownloadIcon, Key, Hash, File as FileIcon, FileCheck, AlertCircle, CheckCircle } from 'lucide-react';
+import { Loader2, Eye, EyeOff, Download as DownloadIcon, Key, Hash, File as FileIcon, FileCheck, AlertCircle, CheckCircle, Link } from 'lucide-react';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
@@ -13,8 +13,24 @@ import { UploadProgress, type UploadStatus } from '@/components/ui/upload-progre
 const downloadFormSchema = z.object({
   filename: z.string().min(1, 'Filename is required'),
   large: z.enum(['true', 'false']),
-  token: z.string().min(1, 'Token is required'),
-  channel_id: z.string().min(1, 'Channel ID is required'),
+  // Download with a bot token and channel ID, or through a channel webhook
+  auth: z.enum(['token', 'webhook']),
+  token: z.string(),
+  channel_id: z.string(),
+  webhook_url: z.string(),
+}).superRefine((data, ctx) => {
+  if (data.auth === 'webhook') {
+    if (!data.webhook_url) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['webhook_url'], message: 'Webhook URL is required' });
+    }
+    return;
+  }
+  if (!data.token) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['token'], message: 'Token is required' });
+  }
+  if (!data.channel_id) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['channel_id'], message: 'Channel ID is required' });
+  }
 });
 
 type DownloadFormValues = z.infer<typeof downloadFormSchema>;
@@ -37,8 +53,10 @@ export function DownloadForm({ onCredentialsEntered }: DownloadFormProps) {
     defaultValues: {
       filename: '',
       large: 'false',
+      auth: 'token',
       token: '',
       channel_id: '',
+      webhook_url: '',
     },
     mode: 'onChange',
   });
@@ -68,13 +86,20 @@ export function DownloadForm({ onCredentialsEntered }: DownloadFormProps) {
     const isLargeFile = data.large === 'true';
     
     try {
-      // Create a form object to hold the request parameters
-      const requestBody = {
-        filename: data.filename,
-        large: isLargeFile,
-        token: data.token,
-        channel_id: data.channel_id,
-      };
+      // Create a form object to hold the request parameters; webhooks can
+      // only fetch files uploaded through this app, by their stored references
+      const requestBody = data.auth === 'webhook'
+        ? {
+          filename: data.filename,
+          large: isLargeFile,
+          webhook_url: data.webhook_url,
+        }
+        : {
+          filename: data.filename,
+          large: isLargeFile,
+          token: data.token,
+          channel_id: data.channel_id,
+        };
       
       // For simulating download progress
       const startDownloadProgress = () => {
@@ -145,7 +170,9 @@ export function DownloadForm({ onCredentialsEntered }: DownloadFormProps) {
           });
           
           // Notify parent about the credentials
-          onCredentialsEntered?.(data.channel_id, data.token);
+          if (data.auth === 'token') {
+            onCredentialsEntered?.(data.channel_id, data.token);
+          }
           
           // Reset after showing success
           setTimeout(() => {
@@ -188,6 +215,8 @@ export function DownloadForm({ onCredentialsEntered }: DownloadFormProps) {
     }
   };
 
+  const authMode = form.watch('auth');
+
   const togglePasswordVisibility = () => {
     setShowPassword(!showPassword);
   };
@@ -254,66 +283,120 @@ export function DownloadForm({ onCredentialsEntered }: DownloadFormProps) {
           )}
         />
         
-        {/* Token Field */}
+        {/* Credentials Type Field */}
         <FormField
           control={form.control}
-          name="token"
+          name="auth"
           render={({ field }) => (
             <FormItem className="mb-6">
               <FormLabel className="flex items-center gap-1.5 text-sm font-medium mb-2 dark:text-gray-200">
                 <Key className="h-3.5 w-3.5 text-cyber-purple" />
-                Discord Token
+                Download With
               </FormLabel>
-              <div className="relative">
+              <Select onValueChange={field.onChange} value={field.value}>
                 <FormControl>
-                  <Input
-                    type={showPassword ? "text" : "password"}
-                    className="w-full pl-3 pr-10 py-2 border-gray-200 dark:border-gray-700 dark:bg-gray-800/50 dark:text-white rounded-md focus:ring-cyber-purple focus:border-cyber-purple"
-                    placeholder="Enter your bot token"
-                    {...field}
-                  />
+                  <SelectTrigger className="w-full border-gray-200 dark:border-gray-700 dark:bg-gray-800/50 dark:text-white rounded-md focus:ring-cyber-purple focus:border-cyber-purple">
+                    <SelectValue />
+                  </SelectTrigger>
                 </FormControl>
-                <button
-                  type="button"
-                  className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-cyber-purple transition-colors"
-                  onClick={togglePasswordVisibility}
-                >
-                  {showPassword ? (
-                    <EyeOff className="h-5 w-5" />
-                  ) : (
-                    <Eye className="h-5 w-5" />
-                  )}
-                </button>
-              </div>
-              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Your Discord bot or user token</p>
+                <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+                  <SelectItem className="dark:text-white dark:focus:bg-cyber-purple/20" value="token">Bot token and channel ID</SelectItem>
+                  <SelectItem className="dark:text-white dark:focus:bg-cyber-purple/20" value="webhook">Channel webhook</SelectItem>
+                </SelectContent>
+              </Select>
               <FormMessage className="text-red-500" />
             </FormItem>
           )}
         />
         
-        {/* Channel ID Field */}
-        <FormField
-          control={form.control}
-          name="channel_id"
-          render={({ field }) => (
-            <FormItem className="mb-6">
-              <FormLabel className="flex items-center gap-1.5 text-sm font-medium mb-2 dark:text-gray-200">
-                <Hash className="h-3.5 w-3.5 text-cyber-purple" />
-                Channel ID
-              </FormLabel>
-              <FormControl>
-                <Input
-                  type="text"
-                  className="w-full pl-3 py-2 border-gray-200 dark:border-gray-700 dark:bg-gray-800/50 dark:text-white rounded-md focus:ring-cyber-purple focus:border-cyber-purple"
-                  placeholder="Enter Discord channel ID"
-                  {...field}
-                />
-              </FormControl>
-              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">The Discord channel where file is located</p>
-              <FormMessage className="text-red-500" />
-            </FormItem>
-          )}
-        />
+        {authMode === 'webhook' ? (
+          /* Webhook URL Field */
+          <FormField
+            control={form.control}
+            name="webhook_url"
+            render={({ field }) => (
+              <FormItem className="mb-6">
+                <FormLabel className="flex items-center gap-1.5 text-sm font-medium mb-2 dark:text-gray-200">
+                  <Link className="h-3.5 w-3.5 text-cyber-purple" />
+                  Webhook URL
+                </FormLabel>
+                <FormControl>
+                  <Input
+                    type={showPassword ? "text" : "password"}
+                    className="w-full pl-3 py-2 border-gray-200 dark:border-gray-700 dark:bg-gray-800/50 dark:text-white rounded-md focus:ring-cyber-purple focus:border-cyber-purple"
+                    placeholder="https://discord.com/api/webhooks/..."
+                    {...field}
+                  />
+                </FormControl>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Only files uploaded through this app can be found with a webhook</p>
+                <FormMessage className="text-red-500" />
+              </FormItem>
+            )}
+          />
+        ) : (
+          <>
+            {/* Token Field */}
+            <FormField
+              control={form.control}
+              name="token"
+              render={({ field }) => (
+                <FormItem className="mb-6">
+                  <FormLabel className="flex items-center gap-1.5 text-sm font-medium mb-2 dark:text-gray-200">
+                    <Key className="h-3.5 w-3.5 text-cyber-purple" />
+                    Discord Token
+                  </FormLabel>
+                  <div className="relative">
+                    <FormControl>
+                      <Input
+                        type={showPassword ? "text" : "password"}
+                        className="w-full pl-3 pr-10 py-2 border-gray-200 dark:border-gray-700 dark:bg-gray-800/50 dark:text-white rounded-md focus:ring-cyber-purple focus:border-cyber-purple"
+                        placeholder="Enter your bot token"
+                        {...field}
+                      />
+                    </FormControl>
+                    <button
+                      type="button"
+                      className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-cyber-purple transition-colors"
+                      onClick={togglePasswordVisibility}
+                    >
+                      {showPassword ? (
+                        <EyeOff className="h-5 w-5" />
+                      ) : (
+                        <Eye className="h-5 w-5" />
+                      )}
+                    </button>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Your Discord bot or user token</p>
+                  <FormMessage className="text-red-500" />
+                </FormItem>
+              )}
+            />
+        
+            {/* Channel ID Field */}
+            <FormField
+              control={form.control}
+              name="channel_id"
+              render={({ field }) => (
+                <FormItem className="mb-6">
+                  <FormLabel className="flex items-center gap-1.5 text-sm font-medium mb-2 dark:text-gray-200">
+                    <Hash className="h-3.5 w-3.5 text-cyber-purple" />
+                    Channel ID
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="text"
+                      className="w-full pl-3 py-2 border-gray-200 dark:border-gray-700 dark:bg-gray-800/50 dark:text-white rounded-md focus:ring-cyber-purple focus:border-cyber-purple"
+                      placeholder="Enter Discord channel ID"
+                      {...field}
+                    />
+                  </FormControl>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">The Discord channel where file is located</p>
+                  <FormMessage className="text-red-500" />
+                </FormItem>
+              )}
+            />
+          </>
+        )}
         
         {/* Download Progress */}
         {downloadStatus !== 'idle' && (
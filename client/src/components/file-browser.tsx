@@ -8,6 +8,7 @@ import { Loader2, FileText, FileImage, Table, Database, Archive, Download, Trash
 import { useProfile } from '@/hooks/use-profile';
 import { formatBytes } from '@/lib/format';
 import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
 
 // File type from API response
 type FileItem = {
@@ -20,6 +21,16 @@ type FileItem = {
   created_at: string;
 };
 
+// Chunk found in the channel's storage backend
+type ChannelAttachment = {
+  id: string;
+  filename: string;
+  size: number;
+  timestamp?: string;
+  attachmentIndex?: number;
+  tracked?: boolean; // Already part of a file in the database
+};
+
 export function FileBrowserCard() {
   // State for form inputs
   const [channelId, setChannelId] = useState('');
@@ -29,6 +40,11 @@ export function FileBrowserCard() {
   const [storageUsed, setStorageUsed] = useState(0);
   const [totalStorage, setTotalStorage] = useState(10 * 1024 * 1024 * 1024); // 10GB default
   const [storagePercent, setStoragePercent] = useState(0);
+  const [attachments, setAttachments] = useState<ChannelAttachment[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [selectedAttachments, setSelectedAttachments] = useState<string[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
   const { savedCredentials, currentUser } = useProfile();
   const { toast } = useToast();
 
@@ -91,6 +107,12 @@ export function FileBrowserCard() {
       setFiles(dbFiles.sort((a: FileItem, b: FileItem) => {
         return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
       }));
+
+      // Fetch the newest attachments from the channel itself
+      const page = await fetchAttachmentPage();
+      setAttachments(page.files);
+      setNextCursor(page.nextCursor);
+      setSelectedAttachments([]);
     } catch (error) {
       console.error('Error fetching files:', error);
       toast({
@@ -103,12 +125,117 @@ export function FileBrowserCard() {
     }
   };
 
-  // Function to download a file
-  const downloadFile = async (filename: string, large: boolean = false) => {
-    if (!channelId || !token) {
+  // Function to fetch a page of attachments from the channel history
+  const fetchAttachmentPage = async (before?: string) => {
+    const response = await fetch('/api/list-files', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        token,
+        channel_id: channelId,
+        before
+      }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || 'Failed to fetch channel attachments');
+    }
+
+    return {
+      files: (data.files || []) as ChannelAttachment[],
+      nextCursor: data.next_cursor as string | null
+    };
+  };
+
+  // Function to load the next page of channel attachments
+  const loadMoreAttachments = async () => {
+    if (!nextCursor) return;
+
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchAttachmentPage(nextCursor);
+      setAttachments(previous => [...previous, ...page.files]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more attachments:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load more attachments",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Key of an attachment; a message can hold several
+  const getAttachmentKey = (attachment: ChannelAttachment) => `${attachment.id}:${attachment.filename}`;
+
+  // Function to toggle an untracked attachment in the import selection
+  const toggleAttachment = (attachment: ChannelAttachment, checked: boolean) => {
+    const key = getAttachmentKey(attachment);
+    setSelectedAttachments(previous => checked
+      ? [...previous, key]
+      : previous.filter(selected => selected !== key));
+  };
+
+  // Function to add the selected attachments to the file index
+  const importAttachments = async () => {
+    const selected = attachments.filter(attachment => selectedAttachments.includes(getAttachmentKey(attachment)));
+    if (selected.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      const response = await fetch('/api/import-files', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          token,
+          channel_id: channelId,
+          attachments: selected.map(attachment => ({
+            id: attachment.id,
+            filename: attachment.filename,
+            attachment_index: attachment.attachmentIndex
+          }))
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to import attachments');
+      }
+
+      const skipped = (data.skipped || []) as { filename: string; reason: string }[];
+      toast({
+        title: "Import Complete",
+        description: skipped.length > 0
+          ? `${data.message}. Skipped: ${skipped.map(entry => `"${entry.filename}" ${entry.reason}`).join('; ')}`
+          : data.message,
+      });
+      await fetchFiles();
+    } catch (error) {
+      console.error('Error importing attachments:', error);
+      toast({
+        title: "Import Error",
+        description: error instanceof Error ? error.message : "Failed to import attachments",
+        variant: "destructive"
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Function to download a tracked file by its ID
+  const downloadFile = async (fileId: number, filename: string) => {
+    if (!token) {
       toast({
         title: "Missing Information",
-        description: "Channel ID and Discord Token are required to download files.",
+        description: "A Discord Token is required to download files.",
         variant: "destructive"
       });
       return;
@@ -122,10 +249,8 @@ export function FileBrowserCard() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          filename,
-          large,
-          token,
-          channel_id: channelId
+          file_id: fileId,
+          token
         }),
       });
       
@@ -175,13 +300,47 @@ export function FileBrowserCard() {
     }
   };
 
-  // Function to delete a file (placeholder - API doesn't support this yet)
-  const deleteFile = async (fileId: number) => {
-    toast({
-      title: "Not Implemented",
-      description: "File deletion is not yet implemented in the API.",
-      variant: "default"
-    });
+  // Function to delete one of the user's own files and its messages
+  const deleteFile = async (fileId: number, filename: string) => {
+    if (!currentUser) {
+      toast({
+        title: "Not Signed In",
+        description: "Files can only be deleted by the user who uploaded them.",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (!confirm(`Delete "${filename}" and its messages in the channel?`)) return;
+
+    try {
+      const response = await fetch(`/api/files/${fileId}`, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          token: token || undefined
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to delete file');
+      }
+
+      setFiles(previous => previous.filter(file => file.id !== fileId));
+      toast({
+        title: "File Deleted",
+        description: data.message,
+      });
+    } catch (error) {
+      console.error('Error deleting file:', error);
+      toast({
+        title: "Delete Error",
+        description: error instanceof Error ? error.message : "Failed to delete file",
+        variant: "destructive"
+      });
+    }
   };
 
   return (
@@ -266,7 +425,7 @@ export function FileBrowserCard() {
                         variant="ghost" 
                         size="icon"
                         title="Download"
-                        onClick={() => downloadFile(file.filename, file.type === 'large_chunked')}
+                        onClick={() => downloadFile(file.id, file.filename)}
                       >
                         <Download className="h-4 w-4" />
                       </Button>
@@ -274,7 +433,7 @@ export function FileBrowserCard() {
                         variant="ghost" 
                         size="icon"
                         title="Delete"
-                        onClick={() => deleteFile(file.id)}
+                        onClick={() => deleteFile(file.id, file.filename)}
                       >
                         <Trash2 className="h-4 w-4 text-destructive" />
                       </Button>
@@ -286,7 +445,79 @@ export function FileBrowserCard() {
           </>
         )}
         
-        {files.length === 0 && !isFetching && (
+        {attachments.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium">Channel Attachments</h3>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={importAttachments}
+                disabled={selectedAttachments.length === 0 || isImporting}
+              >
+                {isImporting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Importing...
+                  </>
+                ) : (
+                  `Import Selected (${selectedAttachments.length})`
+                )}
+              </Button>
+            </div>
+            <div className="border rounded-md overflow-hidden">
+              <div className="grid grid-cols-4 bg-muted p-3 text-sm font-medium">
+                <div className="col-span-2">Filename</div>
+                <div className="text-center">Size</div>
+                <div className="text-right">Posted</div>
+              </div>
+              <div className="divide-y">
+                {attachments.map((attachment) => (
+                  <div key={getAttachmentKey(attachment)} className="grid grid-cols-4 p-3 items-center hover:bg-muted/50">
+                    <div className="col-span-2 flex items-center gap-2">
+                      {attachment.tracked ? (
+                        <FileText className="h-4 w-4 text-gray-500" />
+                      ) : (
+                        <Checkbox
+                          title="Select for import"
+                          checked={selectedAttachments.includes(getAttachmentKey(attachment))}
+                          onCheckedChange={(checked) => toggleAttachment(attachment, checked === true)}
+                        />
+                      )}
+                      <span className="truncate">{attachment.filename}</span>
+                      {!attachment.tracked && (
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">untracked</span>
+                      )}
+                    </div>
+                    <div className="text-center">{formatBytes(attachment.size)}</div>
+                    <div className="text-right text-sm text-muted-foreground">
+                      {attachment.timestamp ? new Date(attachment.timestamp).toLocaleDateString() : '-'}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+            {nextCursor && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={loadMoreAttachments}
+                disabled={isLoadingMore}
+              >
+                {isLoadingMore ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  'Load More'
+                )}
+              </Button>
+            )}
+          </div>
+        )}
+        
+        {files.length === 0 && attachments.length === 0 && !isFetching && (
           <div className="flex flex-col items-center justify-center py-12 text-center border rounded-md">
             <div className="text-4xl mb-4">📂</div>
             <h3 className="text-lg font-medium mb-2">No files found</h3>
@@ -1,20 +1,43 @@
 import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
+import { useQuery } from '@tanstack/react-query';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { Loader2, Eye, EyeOff, Upload as UploadIcon, Key, Hash, Database } from 'lucide-react';
+import { Loader2, Eye, EyeOff, Upload as UploadIcon, Key, Hash, Database, Link, Archive } from 'lucide-react';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { FileUpload } from '@/components/ui/file-upload';
 import { UploadProgress, type UploadStatus } from '@/components/ui/upload-progress';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
+import { formatBytes } from '@/lib/format';
 
 const uploadFormSchema = z.object({
-  token: z.string().min(1, 'Token is required'),
-  channel_id: z.string().min(1, 'Channel ID is required'),
+  // Upload with a bot token and channel ID, or through a channel webhook
+  auth: z.enum(['token', 'webhook']),
+  token: z.string(),
+  channel_id: z.string(),
+  webhook_url: z.string(),
   channel_name: z.string().optional(),
+  backend: z.enum(['discord', 'local']),
+  // 'channel' leaves it to the channel's own setting
+  compression: z.enum(['channel', 'none', 'gzip', 'brotli', 'zstd']),
+}).superRefine((data, ctx) => {
+  if (data.auth === 'webhook') {
+    if (!data.webhook_url) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['webhook_url'], message: 'Webhook URL is required' });
+    }
+    return;
+  }
+  // Local channels are not on Discord, so they need no token
+  if (!data.token && data.backend === 'discord') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['token'], message: 'Token is required' });
+  }
+  if (!data.channel_id) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['channel_id'], message: 'Channel ID is required' });
+  }
 });
 
 type UploadFormValues = z.infer<typeof uploadFormSchema>;
@@ -29,12 +52,26 @@ export function UploadForm({ onCredentialsEntered }: UploadFormProps) {
   const [isUploading, setIsUploading] = useState(false);
   const { toast } = useToast();
 
+  // Files over the chunk size are split into parts; the server lowers it
+  // further for channels with a smaller upload limit
+  const { data: chunkSize } = useQuery({
+    queryKey: ['upload-chunk-size'],
+    queryFn: async () => {
+      const settings = await apiRequest<{ defaultChunkSize: number }>('/api/admin/settings');
+      return settings.defaultChunkSize;
+    },
+  });
+
   const form = useForm<UploadFormValues>({
     resolver: zodResolver(uploadFormSchema),
     defaultValues: {
+      auth: 'token',
       token: '',
       channel_id: '',
+      webhook_url: '',
       channel_name: '',
+      backend: 'discord',
+      compression: 'channel',
     },
     mode: 'onChange',
   });
@@ -56,6 +93,13 @@ export function UploadForm({ onCredentialsEntered }: UploadFormProps) {
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'processing' | 'success' | 'error'>('idle');
   const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadError, setUploadError] = useState<string | undefined>(undefined);
+  // Set when an upload of the current file failed part-way and can be resumed
+  const [resumableFileId, setResumableFileId] = useState<number | null>(null);
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setResumableFileId(null);
+  };
 
   const onSubmit = async (data: UploadFormValues) => {
     if (!file) {
@@ -73,18 +117,36 @@ export function UploadForm({ onCredentialsEntered }: UploadFormProps) {
     setUploadError(undefined);
 
     try {
+      // The server streams the file straight to Discord, so the credential
+      // fields have to come before the file part in the request body
       const formData = new FormData();
-      formData.append('file', file);
-      formData.append('token', data.token);
-      formData.append('channel_id', data.channel_id);
+      if (data.auth === 'webhook') {
+        // The webhook identifies its channel, so no channel ID is sent
+        formData.append('webhook_url', data.webhook_url);
+      } else {
+        if (data.token) {
+          formData.append('token', data.token);
+        }
+        if (resumableFileId === null) {
+          formData.append('channel_id', data.channel_id);
+          formData.append('backend', data.backend);
+        }
+      }
       
       // Add optional channel name if provided
       if (data.channel_name) {
         formData.append('channel_name', data.channel_name);
       }
+      
+      // A resumed upload keeps the compression it was started with
+      if (data.compression !== 'channel' && resumableFileId === null) {
+        formData.append('compression', data.compression);
+      }
+      
+      formData.append('file', file);
 
       // Check if it's a large file that will be chunked
-      const isLargeFile = file.size > 10 * 1024 * 1024; // > 10MB
+      const isLargeFile = chunkSize !== undefined && file.size > chunkSize;
 
       // Use XMLHttpRequest for progress tracking
       const xhr = new XMLHttpRequest();
@@ -103,12 +165,18 @@ export function UploadForm({ onCredentialsEntered }: UploadFormProps) {
             const response = JSON.parse(xhr.responseText);
             resolve(response);
           } else {
+            let errorData: { message?: string; file_id?: number } | null = null;
             try {
-              const errorData = JSON.parse(xhr.responseText);
-              reject(new Error(errorData.message || 'Upload failed'));
+              errorData = JSON.parse(xhr.responseText);
             } catch (e) {
               reject(new Error('Upload failed'));
+              return;
             }
+            // Keep the file ID so the upload can pick up where it stopped
+            if (typeof errorData?.file_id === 'number') {
+              setResumableFileId(errorData.file_id);
+            }
+            reject(new Error(errorData?.message || 'Upload failed'));
           }
         });
         
@@ -122,7 +190,7 @@ export function UploadForm({ onCredentialsEntered }: UploadFormProps) {
       });
 
       // Open and send the request
-      xhr.open('POST', '/api/upload');
+      xhr.open('POST', resumableFileId === null ? '/api/upload' : `/api/upload/${resumableFileId}/resume`);
       xhr.send(formData);
       
       // Once upload is complete, show processing state for large files
@@ -134,15 +202,20 @@ export function UploadForm({ onCredentialsEntered }: UploadFormProps) {
       const responseData = await uploadPromise;
       
       setUploadStatus('success');
+      setResumableFileId(null);
       toast({
         title: "Success!",
-        description: "File uploaded successfully to Discord!",
+        description: responseData?.deduplicated_bytes > 0
+          ? `File uploaded successfully to Discord! ${formatBytes(responseData.deduplicated_bytes)} were already stored and not uploaded again.`
+          : "File uploaded successfully to Discord!",
         variant: "default",
         className: "bg-cyber-success text-white",
       });
       
       // Notify parent about the credentials
-      onCredentialsEntered?.(data.channel_id, data.token);
+      if (data.auth === 'token') {
+        onCredentialsEntered?.(data.channel_id, data.token);
+      }
       
       // Reset file input after success
       setTimeout(() => {
@@ -165,6 +238,8 @@ export function UploadForm({ onCredentialsEntered }: UploadFormProps) {
     }
   };
 
+  const authMode = form.watch('auth');
+
   const togglePasswordVisibility = () => {
     setShowPassword(!showPassword);
   };
@@ -181,7 +256,7 @@ export function UploadForm({ onCredentialsEntered }: UploadFormProps) {
         <div className="mb-6">
           <FormLabel className="block text-sm font-medium mb-2 dark:text-gray-200">Select File</FormLabel>
           <div className="bg-gray-50 dark:bg-gray-800/50 rounded-md p-4 border border-gray-100 dark:border-gray-700">
-            <FileUpload onChange={setFile} />
+            <FileUpload onChange={handleFileChange} />
             
             {/* Display file information if selected */}
             {file && uploadStatus === 'idle' && (
@@ -221,62 +296,173 @@ export function UploadForm({ onCredentialsEntered }: UploadFormProps) {
           </div>
         </div>
         
-        {/* Token Field */}
+        {/* Credentials Type Field */}
         <FormField
           control={form.control}
-          name="token"
+          name="auth"
           render={({ field }) => (
             <FormItem className="mb-6">
               <FormLabel className="flex items-center gap-1.5 text-sm font-medium mb-2 dark:text-gray-200">
                 <Key className="h-3.5 w-3.5 text-cyber-purple" />
-                Discord Token
+                Upload With
               </FormLabel>
-              <div className="relative">
+              <Select onValueChange={field.onChange} value={field.value}>
                 <FormControl>
-                  <Input
-                    type={showPassword ? "text" : "password"}
-                    className="w-full pl-3 pr-10 py-2 border-gray-200 dark:border-gray-700 dark:bg-gray-800/50 rounded-md focus:ring-cyber-purple focus:border-cyber-purple"
-                    placeholder="Enter your bot token"
-                    {...field}
-                  />
+                  <SelectTrigger className="w-full border-gray-200 dark:border-gray-700 dark:bg-gray-800/50">
+                    <SelectValue />
+                  </SelectTrigger>
                 </FormControl>
-                <button
-                  type="button"
-                  className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-cyber-purple transition-colors"
-                  onClick={togglePasswordVisibility}
-                >
-                  {showPassword ? (
-                    <EyeOff className="h-5 w-5" />
-                  ) : (
-                    <Eye className="h-5 w-5" />
-                  )}
-                </button>
-              </div>
-              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Your Discord bot or user token</p>
+                <SelectContent>
+                  <SelectItem value="token">Bot token and channel ID</SelectItem>
+                  <SelectItem value="webhook">Channel webhook</SelectItem>
+                </SelectContent>
+              </Select>
               <FormMessage className="text-red-500" />
             </FormItem>
           )}
         />
         
-        {/* Channel ID Field */}
+        {authMode === 'webhook' ? (
+          /* Webhook URL Field */
+          <FormField
+            control={form.control}
+            name="webhook_url"
+            render={({ field }) => (
+              <FormItem className="mb-6">
+                <FormLabel className="flex items-center gap-1.5 text-sm font-medium mb-2 dark:text-gray-200">
+                  <Link className="h-3.5 w-3.5 text-cyber-purple" />
+                  Webhook URL
+                </FormLabel>
+                <FormControl>
+                  <Input
+                    type={showPassword ? "text" : "password"}
+                    className="w-full pl-3 py-2 border-gray-200 dark:border-gray-700 dark:bg-gray-800/50 rounded-md focus:ring-cyber-purple focus:border-cyber-purple"
+                    placeholder="https://discord.com/api/webhooks/..."
+                    {...field}
+                  />
+                </FormControl>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Channel settings &gt; Integrations &gt; Webhooks; no bot token needed</p>
+                <FormMessage className="text-red-500" />
+              </FormItem>
+            )}
+          />
+        ) : (
+          <>
+            {/* Token Field */}
+            <FormField
+              control={form.control}
+              name="token"
+              render={({ field }) => (
+                <FormItem className="mb-6">
+                  <FormLabel className="flex items-center gap-1.5 text-sm font-medium mb-2 dark:text-gray-200">
+                    <Key className="h-3.5 w-3.5 text-cyber-purple" />
+                    Discord Token
+                  </FormLabel>
+                  <div className="relative">
+                    <FormControl>
+                      <Input
+                        type={showPassword ? "text" : "password"}
+                        className="w-full pl-3 pr-10 py-2 border-gray-200 dark:border-gray-700 dark:bg-gray-800/50 rounded-md focus:ring-cyber-purple focus:border-cyber-purple"
+                        placeholder="Enter your bot token"
+                        {...field}
+                      />
+                    </FormControl>
+                    <button
+                      type="button"
+                      className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-cyber-purple transition-colors"
+                      onClick={togglePasswordVisibility}
+                    >
+                      {showPassword ? (
+                        <EyeOff className="h-5 w-5" />
+                      ) : (
+                        <Eye className="h-5 w-5" />
+                      )}
+                    </button>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Your Discord bot or user token</p>
+                  <FormMessage className="text-red-500" />
+                </FormItem>
+              )}
+            />
+        
+            {/* Channel ID Field */}
+            <FormField
+              control={form.control}
+              name="channel_id"
+              render={({ field }) => (
+                <FormItem className="mb-6">
+                  <FormLabel className="flex items-center gap-1.5 text-sm font-medium mb-2 dark:text-gray-200">
+                    <Hash className="h-3.5 w-3.5 text-cyber-purple" />
+                    Channel ID
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="text"
+                      className="w-full pl-3 py-2 border-gray-200 dark:border-gray-700 dark:bg-gray-800/50 rounded-md focus:ring-cyber-purple focus:border-cyber-purple"
+                      placeholder="Enter Discord channel ID"
+                      {...field}
+                    />
+                  </FormControl>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">The Discord channel where files will be uploaded</p>
+                  <FormMessage className="text-red-500" />
+                </FormItem>
+              )}
+            />
+        
+            {/* Storage Backend Field */}
+            <FormField
+              control={form.control}
+              name="backend"
+              render={({ field }) => (
+                <FormItem className="mb-6">
+                  <FormLabel className="flex items-center gap-1.5 text-sm font-medium mb-2 dark:text-gray-200">
+                    <Database className="h-3.5 w-3.5 text-cyber-purple" />
+                    Storage
+                  </FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="w-full border-gray-200 dark:border-gray-700 dark:bg-gray-800/50">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="discord">Discord channel</SelectItem>
+                      <SelectItem value="local">Local directory</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Where a new channel keeps its files; existing channels keep their own setting</p>
+                  <FormMessage className="text-red-500" />
+                </FormItem>
+              )}
+            />
+          </>
+        )}
+        
+        {/* Compression Field */}
         <FormField
           control={form.control}
-          name="channel_id"
+          name="compression"
           render={({ field }) => (
             <FormItem className="mb-6">
               <FormLabel className="flex items-center gap-1.5 text-sm font-medium mb-2 dark:text-gray-200">
-                <Hash className="h-3.5 w-3.5 text-cyber-purple" />
-                Channel ID
+                <Archive className="h-3.5 w-3.5 text-cyber-purple" />
+                Compression
               </FormLabel>
-              <FormControl>
-                <Input
-                  type="text"
-                  className="w-full pl-3 py-2 border-gray-200 dark:border-gray-700 dark:bg-gray-800/50 rounded-md focus:ring-cyber-purple focus:border-cyber-purple"
-                  placeholder="Enter Discord channel ID"
-                  {...field}
-                />
-              </FormControl>
-              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">The Discord channel where files will be uploaded</p>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger className="w-full border-gray-200 dark:border-gray-700 dark:bg-gray-800/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="channel">Channel default</SelectItem>
+                  <SelectItem value="none">None</SelectItem>
+                  <SelectItem value="gzip">gzip</SelectItem>
+                  <SelectItem value="brotli">Brotli</SelectItem>
+                  <SelectItem value="zstd">zstd</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Applied before the file is split into chunks; already compressed types such as images and archives are stored as they are</p>
               <FormMessage className="text-red-500" />
             </FormItem>
           )}
@@ -295,6 +481,8 @@ export function UploadForm({ onCredentialsEntered }: UploadFormProps) {
               <Loader2 className="mr-2 h-5 w-5 animate-spin" />
               Uploading...
             </>
+          ) : resumableFileId !== null ? (
+            "Resume Upload"
           ) : (
             "Upload to Discord"
           )}
@@ -14,6 +14,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation } from '@tanstack/react-query';
 import axios from 'axios';
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatBytes } from "@/lib/format";
 import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
@@ -27,6 +28,18 @@ interface AdminStats {
   storageUsed: number;
   totalRequests: number;
   averageFileSize: number;
+  chunkCache: ChunkCacheStats;
+}
+
+// Hit and miss counts are since the server started
+interface ChunkCacheStats {
+  enabled: boolean;
+  hits: number;
+  misses: number;
+  evictions: number;
+  entries: number;
+  sizeBytes: number;
+  maxBytes: number;
 }
 
 interface ActivityItem {
@@ -83,6 +96,82 @@ interface SystemSettings {
   serverVersion: string;
   maintenanceMode: boolean;
   registrationEnabled: boolean;
+  transferConcurrency: number;
+  replicationFactor: number;
+  scrubIntervalHours: number;
+  scrubVerifyChecksums: boolean;
+  gcStaleUploadHours: number;
+  chunkCacheSize: number;
+}
+
+interface ScrubRun {
+  started_at: string;
+  finished_at: string | null;
+  checksums_verified: boolean;
+  files_checked: number;
+  healthy: number;
+  missing: number;
+  corrupt: number;
+  skipped: number;
+  errors: number;
+}
+
+interface ScrubFileResult {
+  id: number;
+  filename: string;
+  size: number;
+  status: 'healthy' | 'missing' | 'corrupt';
+  chunksChecked: number;
+  chunksMissing: number;
+  chunksCorrupt: number;
+  checksumsVerified: boolean;
+  details: string[];
+  checkedAt: string;
+}
+
+interface GcReport {
+  id: string;
+  status: 'scanning' | 'ready' | 'applying' | 'applied' | 'failed';
+  stale_after_hours: number;
+  started_at: string;
+  finished_at: string | null;
+  error: string | null;
+  stale_uploads: { file_id: number; filename: string; created_at: string | null; chunks: number }[];
+  orphans: { chunk_id: string; discord_channel_id: string; filenames: string[]; size: number; timestamp: string | null }[];
+  skipped_channels: { channel_id: number; name: string | null; reason: string }[];
+  result: { files_deleted: number; skipped: number; chunks_deleted: number; chunks_pending: number; chunks_shared: number } | null;
+}
+
+interface RecoveredFile {
+  filename: string;
+  source: 'manifest' | 'parts';
+  parts: number;
+  size: number;
+  encrypted: boolean;
+  file_id: number | null;
+}
+
+interface RecoveryRun {
+  channel_id: string;
+  dry_run: boolean;
+  started_at: string;
+  finished_at: string | null;
+  error: string | null;
+  chunks_scanned: number;
+  already_tracked: number;
+  files: RecoveredFile[];
+  conflicts: string[];
+  orphans: { id: string; filename: string; size: number }[];
+}
+
+interface UnderReplicatedFile {
+  id: number;
+  filename: string;
+  size: number;
+  channelId: number;
+  replicationFactor: number;
+  minCopies: number;
+  createdAt: string;
 }
 
 interface LogItem {
@@ -166,6 +255,73 @@ export default function AdminPage() {
     enabled: authenticated, // Only fetch when authenticated
   });
   
+  // Fetch integrity scrub status and problem files, polling while a scrub runs
+  const { 
+    data: scrubData,
+    isLoading: isScrubLoading,
+    refetch: refetchScrub
+  } = useQuery({
+    queryKey: ['/api/admin/scrub'],
+    queryFn: async () => {
+      if (!authenticated) return null;
+      const response = await axios.get('/api/admin/scrub');
+      return response.data;
+    },
+    enabled: authenticated && activeTab === 'dashboard',
+    refetchInterval: (query) => query.state.data?.running ? 5000 : false,
+  });
+  
+  const scrubRun: ScrubRun | null = scrubData?.run ?? null;
+  const scrubCounts = scrubData?.counts || { healthy: 0, missing: 0, corrupt: 0 };
+  const scrubProblems: ScrubFileResult[] = scrubData?.files || [];
+  
+  // Options for scrubs started from the dashboard
+  const [scrubToken, setScrubToken] = useState('');
+  const [scrubVerifyChecksums, setScrubVerifyChecksums] = useState(false);
+  
+  // Fetch the latest garbage collection report, polling while a scan or cleanup runs
+  const { 
+    data: gcData,
+    refetch: refetchGc
+  } = useQuery({
+    queryKey: ['/api/admin/gc'],
+    queryFn: async () => {
+      if (!authenticated) return null;
+      const response = await axios.get('/api/admin/gc');
+      return response.data;
+    },
+    enabled: authenticated && activeTab === 'dashboard',
+    refetchInterval: (query) => query.state.data?.running ? 5000 : false,
+  });
+  
+  const gcReport: GcReport | null = gcData?.report ?? null;
+  
+  // Discord token used to list channels and delete leftovers
+  const [gcToken, setGcToken] = useState('');
+  
+  // Fetch the report of the current or last recovery, polling while one runs
+  const { 
+    data: recoveryData,
+    refetch: refetchRecovery
+  } = useQuery({
+    queryKey: ['/api/admin/recovery'],
+    queryFn: async () => {
+      if (!authenticated) return null;
+      const response = await axios.get('/api/admin/recovery');
+      return response.data;
+    },
+    enabled: authenticated && activeTab === 'dashboard',
+    refetchInterval: (query) => query.state.data?.running ? 5000 : false,
+  });
+  
+  const recoveryRun: RecoveryRun | null = recoveryData?.run ?? null;
+  
+  // Options for recoveries started from the dashboard
+  const [recoveryChannelId, setRecoveryChannelId] = useState('');
+  const [recoveryToken, setRecoveryToken] = useState('');
+  const [recoveryLocal, setRecoveryLocal] = useState(false);
+  const [recoveryDryRun, setRecoveryDryRun] = useState(true);
+  
   // Default stats if data hasn't loaded yet
   const stats = statsData || {
     totalUsers: 0,
@@ -174,6 +330,15 @@ export default function AdminPage() {
     storageUsed: 0,
     totalRequests: 0,
     averageFileSize: 0,
+    chunkCache: {
+      enabled: false,
+      hits: 0,
+      misses: 0,
+      evictions: 0,
+      entries: 0,
+      sizeBytes: 0,
+      maxBytes: 0,
+    },
   };
   
   // Fetch user data
@@ -208,6 +373,40 @@ export default function AdminPage() {
     enabled: authenticated && activeTab === 'files',
   });
   
+  // Fetch chunks of deleted files that could not be removed from their channel yet
+  const { 
+    data: pendingDeletionsData,
+    refetch: refetchPendingDeletions
+  } = useQuery({
+    queryKey: ['/api/admin/pending-deletions'],
+    queryFn: async () => {
+      if (!authenticated) return null;
+      const response = await axios.get('/api/admin/pending-deletions');
+      return response.data;
+    },
+    enabled: authenticated && activeTab === 'files',
+  });
+  
+  const pendingDeletionCount: number = pendingDeletionsData?.pending?.length ?? 0;
+  
+  // Discord token used to delete the messages of deleted files; channels with a webhook can do without
+  const [fileToken, setFileToken] = useState('');
+  
+  // Fetch files stored fewer times than their replication factor
+  const { 
+    data: replicationData,
+    isLoading: isReplicationLoading,
+    refetch: refetchReplication
+  } = useQuery({
+    queryKey: ['/api/admin/replication'],
+    queryFn: async () => {
+      if (!authenticated) return { files: [] };
+      const response = await axios.get('/api/admin/replication');
+      return response.data;
+    },
+    enabled: authenticated && activeTab === 'files',
+  });
+  
   // Fetch system settings
   const { 
     data: settingsData,
@@ -246,6 +445,12 @@ export default function AdminPage() {
   // Default users data if not loaded yet
   const users = userData?.users || [];
   
+  // Default under-replicated files if not loaded yet
+  const underReplicatedFiles: UnderReplicatedFile[] = replicationData?.files || [];
+  
+  // Discord token used to read and write replicas; channels with a webhook can do without
+  const [replicationToken, setReplicationToken] = useState('');
+  
   // Default file stats if not loaded yet
   const fileStats = fileStatsData || {
     totalFiles: 0,
@@ -295,7 +500,13 @@ export default function AdminPage() {
         defaultChunkSize: settingsData.defaultChunkSize,
         allowedFileTypes: settingsData.allowedFileTypes,
         maintenanceMode: settingsData.maintenanceMode,
-        registrationEnabled: settingsData.registrationEnabled
+        registrationEnabled: settingsData.registrationEnabled,
+        transferConcurrency: settingsData.transferConcurrency,
+        replicationFactor: settingsData.replicationFactor,
+        scrubIntervalHours: settingsData.scrubIntervalHours,
+        scrubVerifyChecksums: settingsData.scrubVerifyChecksums,
+        gcStaleUploadHours: settingsData.gcStaleUploadHours,
+        chunkCacheSize: settingsData.chunkCacheSize
       });
     }
   }, [settingsData]);
@@ -306,7 +517,13 @@ export default function AdminPage() {
     allowedFileTypes: '',
     serverVersion: '',
     maintenanceMode: false,
-    registrationEnabled: true
+    registrationEnabled: true,
+    transferConcurrency: 1,
+    replicationFactor: 1,
+    scrubIntervalHours: 0,
+    scrubVerifyChecksums: false,
+    gcStaleUploadHours: 24,
+    chunkCacheSize: 0
   };
   
   // Default logs if not loaded yet
@@ -415,18 +632,26 @@ export default function AdminPage() {
   // Delete file mutation
   const deleteFileMutation = useMutation({
     mutationFn: async (fileId: number) => {
-      await apiRequest(`/api/admin/files/${fileId}`, { method: 'DELETE' });
+      return apiRequest(`/api/admin/files/${fileId}`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: fileToken || undefined })
+      });
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       toast({
         title: "File deleted",
-        description: "The file has been successfully removed"
+        description: data.chunks_pending > 0
+          ? `${data.chunks_pending} of its messages could not be removed and will be retried`
+          : "The file and its messages have been removed"
       });
       // Invalidate and refetch
       queryClient.invalidateQueries({ queryKey: ['/api/admin/files'] });
       queryClient.invalidateQueries({ queryKey: ['/api/admin/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/pending-deletions'] });
       refetchFileStats();
       refetchStats();
+      refetchPendingDeletions();
     },
     onError: (error) => {
       toast({
@@ -437,6 +662,172 @@ export default function AdminPage() {
     }
   });
 
+  // Retry pending deletions mutation
+  const retryDeletionsMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('/api/admin/pending-deletions/retry', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: fileToken || undefined })
+      });
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Pending deletions retried",
+        description: data.message,
+        variant: data.chunks_pending > 0 ? "destructive" : "default"
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/pending-deletions'] });
+      refetchPendingDeletions();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to retry pending deletions",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Start scrub mutation
+  const startScrubMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('/api/admin/scrub', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          token: scrubToken || undefined,
+          verify_checksums: scrubVerifyChecksums
+        })
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Scrub started",
+        description: "Every stored file is being checked in the background"
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/scrub'] });
+      refetchScrub();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to start scrub",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Start garbage collection scan mutation
+  const startGcMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('/api/admin/gc', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: gcToken || undefined })
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Garbage collection scan started",
+        description: "Nothing is deleted until you approve the report"
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/gc'] });
+      refetchGc();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to start garbage collection",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Approve garbage collection report mutation
+  const approveGcMutation = useMutation({
+    mutationFn: async (reportId: string) => {
+      return apiRequest(`/api/admin/gc/${reportId}/approve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: gcToken || undefined })
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Garbage collection started",
+        description: "The reported leftovers are being deleted"
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/gc'] });
+      refetchGc();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to approve garbage collection",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Start recovery mutation
+  const startRecoveryMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('/api/admin/recovery', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          channel_id: recoveryChannelId,
+          backend: recoveryLocal ? 'local' : 'discord',
+          token: recoveryToken || undefined,
+          dry_run: recoveryDryRun
+        })
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: recoveryDryRun ? "Recovery dry run started" : "Recovery started",
+        description: "The channel's history is being scanned in the background"
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/recovery'] });
+      refetchRecovery();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to start recovery",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Re-replicate file mutation
+  const replicateFileMutation = useMutation({
+    mutationFn: async (fileId: number) => {
+      return apiRequest(`/api/admin/files/${fileId}/replicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: replicationToken || undefined })
+      });
+    },
+    onSuccess: (data) => {
+      toast({
+        title: data.message,
+        description: `${data.replicas_added} replica${data.replicas_added === 1 ? '' : 's'} added`,
+        variant: data.parts_lost.length > 0 ? "destructive" : "default"
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/replication'] });
+      refetchReplication();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to re-replicate file",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
   // Toggle file public status
   const toggleFilePublicMutation = useMutation({
     mutationFn: async (payload: { fileId: number, isPublic: boolean }) => {
@@ -494,6 +885,7 @@ export default function AdminPage() {
     switch (activeTab) {
       case 'dashboard':
         refetchActivity();
+        refetchScrub();
         break;
       case 'users':
         refetchUsers();
@@ -778,6 +1170,341 @@ export default function AdminPage() {
               </ScrollArea>
             </CardContent>
           </Card>
+          
+          <Card className="mt-4">
+            <CardHeader className="flex flex-row items-center justify-between pb-2 space-y-0">
+              <div>
+                <CardTitle>Storage Integrity</CardTitle>
+                <CardDescription>
+                  {scrubData?.running
+                    ? `Scrub in progress since ${formatDate(scrubRun!.started_at)}: ${scrubRun!.files_checked} files checked`
+                    : scrubRun
+                      ? `Last scrub finished ${formatDate(scrubRun.finished_at!)}: ${scrubRun.files_checked} files checked, ${scrubRun.skipped} skipped, ${scrubRun.errors} errors`
+                      : "No scrub has run since the server started"}
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input 
+                  type="password"
+                  placeholder="Discord token (optional)"
+                  className="w-56"
+                  value={scrubToken}
+                  onChange={(e) => setScrubToken(e.target.value)}
+                />
+                <div className="flex items-center gap-2">
+                  <Checkbox 
+                    id="scrubVerifyChecksums"
+                    checked={scrubVerifyChecksums}
+                    onCheckedChange={(checked) => setScrubVerifyChecksums(checked === true)}
+                  />
+                  <Label htmlFor="scrubVerifyChecksums" className="text-sm whitespace-nowrap">Verify checksums</Label>
+                </div>
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  onClick={() => startScrubMutation.mutate()}
+                  disabled={scrubData?.running || startScrubMutation.isPending}
+                >
+                  {scrubData?.running || startScrubMutation.isPending ? (
+                    <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <ShieldIcon className="h-4 w-4 mr-2" />
+                  )}
+                  Run Scrub
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isScrubLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <LoaderIcon className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="p-4 border rounded-lg">
+                      <p className="text-sm text-muted-foreground">Healthy</p>
+                      <p className="text-2xl font-bold text-green-600">{scrubCounts.healthy}</p>
+                    </div>
+                    <div className="p-4 border rounded-lg">
+                      <p className="text-sm text-muted-foreground">Missing</p>
+                      <p className="text-2xl font-bold text-yellow-600">{scrubCounts.missing}</p>
+                    </div>
+                    <div className="p-4 border rounded-lg">
+                      <p className="text-sm text-muted-foreground">Corrupt</p>
+                      <p className="text-2xl font-bold text-red-600">{scrubCounts.corrupt}</p>
+                    </div>
+                  </div>
+                  
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Problems</TableHead>
+                        <TableHead>Checked</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {scrubProblems.length > 0 ? (
+                        scrubProblems.map((file) => (
+                          <TableRow key={file.id}>
+                            <TableCell className="font-medium">{file.filename}</TableCell>
+                            <TableCell>
+                              {file.status === 'corrupt' ? (
+                                <Badge variant="destructive">Corrupt</Badge>
+                              ) : (
+                                <Badge variant="outline" className="text-yellow-600 border-yellow-600/20">Missing</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {file.details.join('; ')}
+                            </TableCell>
+                            <TableCell>
+                              {formatDate(file.checkedAt)}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      ) : (
+                        <TableRow>
+                          <TableCell colSpan={4} className="text-center py-4 text-muted-foreground">
+                            No missing or corrupt files found
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+          
+          <Card className="mt-4">
+            <CardHeader className="flex flex-row items-center justify-between pb-2 space-y-0">
+              <div>
+                <CardTitle>Garbage Collection</CardTitle>
+                <CardDescription>
+                  {!gcReport
+                    ? "Find unfinished uploads and messages no file refers to; nothing is deleted until you approve"
+                    : gcReport.status === 'scanning'
+                      ? `Scanning since ${formatDate(gcReport.started_at)}`
+                      : gcReport.status === 'failed'
+                        ? `Garbage collection failed: ${gcReport.error}`
+                        : gcReport.result
+                          ? `${gcReport.status === 'applying' ? 'Deleting' : 'Deleted'}: ${gcReport.result.files_deleted} uploads and ${gcReport.result.chunks_deleted} messages, ${gcReport.result.chunks_pending} pending, ${gcReport.result.skipped} skipped`
+                          : `Scan finished ${formatDate(gcReport.finished_at!)}: ${gcReport.stale_uploads.length} unfinished uploads and ${gcReport.orphans.length} unreferenced messages older than ${gcReport.stale_after_hours} hours`}
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input 
+                  type="password"
+                  placeholder="Discord token (optional)"
+                  className="w-56"
+                  value={gcToken}
+                  onChange={(e) => setGcToken(e.target.value)}
+                />
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  onClick={() => startGcMutation.mutate()}
+                  disabled={gcData?.running || startGcMutation.isPending}
+                >
+                  {gcData?.running || startGcMutation.isPending ? (
+                    <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <RefreshCwIcon className="h-4 w-4 mr-2" />
+                  )}
+                  Scan
+                </Button>
+                {gcReport?.status === 'ready' && (gcReport.stale_uploads.length > 0 || gcReport.orphans.length > 0) && (
+                  <Button 
+                    variant="destructive" 
+                    size="sm"
+                    onClick={() => {
+                      if (confirm(`Delete ${gcReport.stale_uploads.length} unfinished uploads and ${gcReport.orphans.length} unreferenced messages?`)) {
+                        approveGcMutation.mutate(gcReport.id);
+                      }
+                    }}
+                    disabled={approveGcMutation.isPending}
+                  >
+                    <CheckCircleIcon className="h-4 w-4 mr-2" />
+                    Approve
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            {gcReport && gcReport.status !== 'scanning' && (
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Kind</TableHead>
+                      <TableHead>Where</TableHead>
+                      <TableHead>Since</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {gcReport.stale_uploads.map((upload) => (
+                      <TableRow key={`file-${upload.file_id}`}>
+                        <TableCell className="font-medium">{upload.filename}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">Unfinished upload</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{upload.chunks} messages</TableCell>
+                        <TableCell>{upload.created_at ? formatDate(upload.created_at) : '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                    {gcReport.orphans.map((orphan) => (
+                      <TableRow key={`chunk-${orphan.discord_channel_id}-${orphan.chunk_id}`}>
+                        <TableCell className="font-medium">{orphan.filenames.join(', ')}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">Unreferenced ({formatBytes(orphan.size)})</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{orphan.discord_channel_id}</TableCell>
+                        <TableCell>{orphan.timestamp ? formatDate(orphan.timestamp) : '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                    {gcReport.stale_uploads.length === 0 && gcReport.orphans.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center py-4 text-muted-foreground">
+                          Nothing to clean up
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+                {gcReport.skipped_channels.length > 0 && (
+                  <p className="text-sm text-muted-foreground mt-4">
+                    Not scanned: {gcReport.skipped_channels.map(channel => `${channel.name ?? channel.channel_id} (${channel.reason})`).join('; ')}
+                  </p>
+                )}
+              </CardContent>
+            )}
+          </Card>
+          
+          <Card className="mt-4">
+            <CardHeader className="flex flex-row items-center justify-between pb-2 space-y-0">
+              <div>
+                <CardTitle>Disaster Recovery</CardTitle>
+                <CardDescription>
+                  {recoveryData?.running
+                    ? `Scanning ${recoveryRun!.channel_id} since ${formatDate(recoveryRun!.started_at)}: ${recoveryRun!.chunks_scanned} chunks scanned`
+                    : recoveryRun
+                      ? `Last ${recoveryRun.dry_run ? 'dry run' : 'recovery'} of ${recoveryRun.channel_id} finished ${formatDate(recoveryRun.finished_at!)}: ${recoveryRun.files.length} files recovered, ${recoveryRun.already_tracked} already tracked${recoveryRun.error ? `, stopped early: ${recoveryRun.error}` : ''}`
+                      : "Rebuild file records from a channel's manifests and part names"}
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input 
+                  placeholder="Channel ID"
+                  className="w-44"
+                  value={recoveryChannelId}
+                  onChange={(e) => setRecoveryChannelId(e.target.value)}
+                />
+                <Input 
+                  type="password"
+                  placeholder="Discord token"
+                  className="w-44"
+                  value={recoveryToken}
+                  onChange={(e) => setRecoveryToken(e.target.value)}
+                  disabled={recoveryLocal}
+                />
+                <div className="flex items-center gap-2">
+                  <Checkbox 
+                    id="recoveryLocal"
+                    checked={recoveryLocal}
+                    onCheckedChange={(checked) => setRecoveryLocal(checked === true)}
+                  />
+                  <Label htmlFor="recoveryLocal" className="text-sm whitespace-nowrap">Local</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox 
+                    id="recoveryDryRun"
+                    checked={recoveryDryRun}
+                    onCheckedChange={(checked) => setRecoveryDryRun(checked === true)}
+                  />
+                  <Label htmlFor="recoveryDryRun" className="text-sm whitespace-nowrap">Dry run</Label>
+                </div>
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  onClick={() => startRecoveryMutation.mutate()}
+                  disabled={!recoveryChannelId || recoveryData?.running || startRecoveryMutation.isPending}
+                >
+                  {recoveryData?.running || startRecoveryMutation.isPending ? (
+                    <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <RefreshCwIcon className="h-4 w-4 mr-2" />
+                  )}
+                  Recover
+                </Button>
+              </div>
+            </CardHeader>
+            {recoveryRun && (
+              <CardContent>
+                <div className="space-y-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Source</TableHead>
+                        <TableHead>Parts</TableHead>
+                        <TableHead>Size</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {recoveryRun.files.length > 0 ? (
+                        recoveryRun.files.map((file, index) => (
+                          <TableRow key={`${file.filename}-${index}`}>
+                            <TableCell className="font-medium">
+                              {file.filename}
+                              {file.encrypted && (
+                                <Badge variant="outline" className="ml-2 text-yellow-600 border-yellow-600/20">Password needed</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{file.source === 'manifest' ? 'Manifest' : 'Part names'}</Badge>
+                            </TableCell>
+                            <TableCell>{file.parts}</TableCell>
+                            <TableCell>{formatBytes(file.size)}</TableCell>
+                          </TableRow>
+                        ))
+                      ) : (
+                        <TableRow>
+                          <TableCell colSpan={4} className="text-center py-4 text-muted-foreground">
+                            No untracked files found
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                  
+                  {recoveryRun.conflicts.length > 0 && (
+                    <div className="p-4 border rounded-lg">
+                      <p className="text-sm font-medium mb-2">Conflicts ({recoveryRun.conflicts.length})</p>
+                      <ul className="text-sm text-muted-foreground list-disc pl-5 space-y-1">
+                        {recoveryRun.conflicts.map((conflict, index) => (
+                          <li key={index}>{conflict}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  
+                  {recoveryRun.orphans.length > 0 && (
+                    <div className="p-4 border rounded-lg">
+                      <p className="text-sm font-medium mb-2">Orphaned chunks ({recoveryRun.orphans.length})</p>
+                      <ul className="text-sm text-muted-foreground list-disc pl-5 space-y-1">
+                        {recoveryRun.orphans.map((orphan) => (
+                          <li key={orphan.id}>{orphan.filename} ({formatBytes(orphan.size)}, chunk {orphan.id})</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            )}
+          </Card>
         </TabsContent>
         
         <TabsContent value="users">
@@ -941,27 +1668,53 @@ export default function AdminPage() {
               <div>
                 <CardTitle>File Management</CardTitle>
                 <CardDescription>
-                  Monitor file storage and manage system files
+                  {pendingDeletionCount > 0
+                    ? `Monitor file storage and manage system files. ${pendingDeletionCount} messages of deleted files are waiting to be removed`
+                    : "Monitor file storage and manage system files"}
                 </CardDescription>
               </div>
-              <Button 
-                variant="outline" 
-                size="sm" 
-                onClick={refreshData}
-                disabled={isFileStatsLoading}
-              >
-                {isFileStatsLoading ? (
-                  <>
-                    <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />
-                    Loading...
-                  </>
-                ) : (
-                  <>
-                    <RefreshCwIcon className="h-4 w-4 mr-2" />
-                    Refresh
-                  </>
+              <div className="flex items-center gap-2">
+                <Input 
+                  type="password"
+                  placeholder="Discord token (optional)"
+                  className="w-56"
+                  value={fileToken}
+                  onChange={(e) => setFileToken(e.target.value)}
+                />
+                {pendingDeletionCount > 0 && (
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={() => retryDeletionsMutation.mutate()}
+                    disabled={retryDeletionsMutation.isPending}
+                  >
+                    {retryDeletionsMutation.isPending ? (
+                      <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <XCircleIcon className="h-4 w-4 mr-2" />
+                    )}
+                    Retry Deletions
+                  </Button>
                 )}
-              </Button>
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={refreshData}
+                  disabled={isFileStatsLoading}
+                >
+                  {isFileStatsLoading ? (
+                    <>
+                      <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />
+                      Loading...
+                    </>
+                  ) : (
+                    <>
+                      <RefreshCwIcon className="h-4 w-4 mr-2" />
+                      Refresh
+                    </>
+                  )}
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
               {isFileStatsLoading ? (
@@ -1125,6 +1878,75 @@ export default function AdminPage() {
                       </TableBody>
                     </Table>
                   </div>
+                  
+                  <div>
+                    <div className="flex items-center justify-between mb-2 gap-4">
+                      <h3 className="text-lg font-medium">Under-replicated Files</h3>
+                      <Input 
+                        type="password"
+                        placeholder="Discord token for re-replication"
+                        className="max-w-xs"
+                        value={replicationToken}
+                        onChange={(e) => setReplicationToken(e.target.value)}
+                      />
+                    </div>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Name</TableHead>
+                          <TableHead>Size</TableHead>
+                          <TableHead>Copies</TableHead>
+                          <TableHead>Uploaded</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {isReplicationLoading ? (
+                          <TableRow>
+                            <TableCell colSpan={5} className="text-center py-4">
+                              <LoaderIcon className="h-4 w-4 animate-spin inline" />
+                            </TableCell>
+                          </TableRow>
+                        ) : underReplicatedFiles.length > 0 ? (
+                          underReplicatedFiles.map((file) => (
+                            <TableRow key={file.id}>
+                              <TableCell className="font-medium">{file.filename}</TableCell>
+                              <TableCell>
+                                {(file.size / (1024 * 1024)).toFixed(2)} MB
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant="outline" className="text-yellow-600 border-yellow-600/20">
+                                  {file.minCopies} of {file.replicationFactor}
+                                </Badge>
+                              </TableCell>
+                              <TableCell>
+                                {formatDate(file.createdAt)}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                <Button 
+                                  variant="outline" 
+                                  size="sm"
+                                  onClick={() => replicateFileMutation.mutate(file.id)}
+                                  disabled={replicateFileMutation.isPending}
+                                >
+                                  {replicateFileMutation.isPending && replicateFileMutation.variables === file.id ? (
+                                    <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />
+                                  ) : null}
+                                  Re-replicate
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        ) : (
+                          <TableRow>
+                            <TableCell colSpan={5} className="text-center py-4 text-muted-foreground">
+                              All files have every copy they need
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
                 </div>
               )}
             </CardContent>
@@ -1176,7 +1998,13 @@ export default function AdminPage() {
                             defaultChunkSize: settingsData.defaultChunkSize,
                             allowedFileTypes: settingsData.allowedFileTypes,
                             maintenanceMode: settingsData.maintenanceMode,
-                            registrationEnabled: settingsData.registrationEnabled
+                            registrationEnabled: settingsData.registrationEnabled,
+                            transferConcurrency: settingsData.transferConcurrency,
+                            replicationFactor: settingsData.replicationFactor,
+                            scrubIntervalHours: settingsData.scrubIntervalHours,
+                            scrubVerifyChecksums: settingsData.scrubVerifyChecksums,
+                            gcStaleUploadHours: settingsData.gcStaleUploadHours,
+        chunkCacheSize: settingsData.chunkCacheSize
                           });
                         }
                       }}
@@ -1286,6 +2114,184 @@ export default function AdminPage() {
                           </div>
                         </div>
                       </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="transferConcurrency">Parallel Chunk Transfers</Label>
+                        <div className="flex items-center gap-2">
+                          <Input 
+                            id="transferConcurrency" 
+                            type="number"
+                            min={1}
+                            max={10}
+                            value={isEditingSettings 
+                              ? (editedSettings?.transferConcurrency || 1)
+                              : settings.transferConcurrency
+                            }
+                            onChange={(e) => {
+                              if (isEditingSettings) {
+                                const value = parseInt(e.target.value);
+                                if (!isNaN(value)) {
+                                  setEditedSettings({
+                                    ...editedSettings,
+                                    transferConcurrency: value
+                                  });
+                                }
+                              }
+                            }}
+                            readOnly={!isEditingSettings}
+                          />
+                          <span className="text-sm text-muted-foreground">chunks</span>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          Chunks uploaded or downloaded at once per file (can be overridden per request)
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="replicationFactor">Replication Factor</Label>
+                        <div className="flex items-center gap-2">
+                          <Input 
+                            id="replicationFactor" 
+                            type="number"
+                            min={1}
+                            max={5}
+                            value={isEditingSettings 
+                              ? (editedSettings?.replicationFactor || 1)
+                              : settings.replicationFactor
+                            }
+                            onChange={(e) => {
+                              if (isEditingSettings) {
+                                const value = parseInt(e.target.value);
+                                if (!isNaN(value)) {
+                                  setEditedSettings({
+                                    ...editedSettings,
+                                    replicationFactor: value
+                                  });
+                                }
+                              }
+                            }}
+                            readOnly={!isEditingSettings}
+                          />
+                          <span className="text-sm text-muted-foreground">copies</span>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          Copies kept of each chunk of new uploads, each in a different channel of the channel's group
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="scrubIntervalHours">Scrub Interval</Label>
+                        <div className="flex items-center gap-2">
+                          <Input 
+                            id="scrubIntervalHours" 
+                            type="number"
+                            min={0}
+                            max={168}
+                            value={isEditingSettings 
+                              ? (editedSettings?.scrubIntervalHours ?? 0)
+                              : settings.scrubIntervalHours
+                            }
+                            onChange={(e) => {
+                              if (isEditingSettings) {
+                                const value = parseInt(e.target.value);
+                                if (!isNaN(value)) {
+                                  setEditedSettings({
+                                    ...editedSettings,
+                                    scrubIntervalHours: value
+                                  });
+                                }
+                              }
+                            }}
+                            readOnly={!isEditingSettings}
+                          />
+                          <span className="text-sm text-muted-foreground">hours</span>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          How often every stored file is checked for missing or corrupt chunks (0 to disable)
+                        </p>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <div className="space-y-0.5">
+                          <Label htmlFor="scrubVerifyChecksumsSetting">Verify Checksums When Scrubbing</Label>
+                          <p className="text-sm text-muted-foreground">
+                            Download every chunk to compare its SHA-256 instead of only checking its size
+                          </p>
+                        </div>
+                        <Switch 
+                          id="scrubVerifyChecksumsSetting" 
+                          checked={isEditingSettings 
+                            ? !!editedSettings?.scrubVerifyChecksums
+                            : settings.scrubVerifyChecksums
+                          }
+                          onCheckedChange={(checked) => {
+                            if (isEditingSettings) {
+                              setEditedSettings({
+                                ...editedSettings,
+                                scrubVerifyChecksums: checked
+                              });
+                            }
+                          }}
+                          disabled={!isEditingSettings}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="gcStaleUploadHours">Garbage Collection Age</Label>
+                        <div className="flex items-center gap-2">
+                          <Input 
+                            id="gcStaleUploadHours" 
+                            type="number"
+                            min={1}
+                            max={720}
+                            value={isEditingSettings 
+                              ? (editedSettings?.gcStaleUploadHours ?? 24)
+                              : settings.gcStaleUploadHours
+                            }
+                            onChange={(e) => {
+                              if (isEditingSettings) {
+                                const value = parseInt(e.target.value);
+                                if (!isNaN(value)) {
+                                  setEditedSettings({
+                                    ...editedSettings,
+                                    gcStaleUploadHours: value
+                                  });
+                                }
+                              }
+                            }}
+                            readOnly={!isEditingSettings}
+                          />
+                          <span className="text-sm text-muted-foreground">hours</span>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          How old unfinished uploads and unreferenced messages must be before garbage collection reports them
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="chunkCacheSize">Chunk Cache Size</Label>
+                        <div className="flex items-center gap-2">
+                          <Input 
+                            id="chunkCacheSize" 
+                            type="number"
+                            min={0}
+                            value={isEditingSettings 
+                              ? ((editedSettings?.chunkCacheSize || 0) / (1024 * 1024)).toFixed(0)
+                              : (settings.chunkCacheSize / (1024 * 1024)).toFixed(0)
+                            }
+                            onChange={(e) => {
+                              if (isEditingSettings) {
+                                const value = parseInt(e.target.value);
+                                if (!isNaN(value)) {
+                                  setEditedSettings({
+                                    ...editedSettings,
+                                    chunkCacheSize: value * 1024 * 1024 // Convert to bytes
+                                  });
+                                }
+                              }
+                            }}
+                            readOnly={!isEditingSettings}
+                          />
+                          <span className="text-sm text-muted-foreground">MB</span>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          Disk space for downloaded chunks, so popular files are not fetched from Discord every time; 0 turns the cache off
+                        </p>
+                      </div>
                       <div className="space-y-2">
                         <Label htmlFor="fileTypes">Allowed File Types</Label>
                         <Input 
@@ -1354,10 +2360,25 @@ export default function AdminPage() {
                         <span className="text-muted-foreground">Total Files</span>
                         <span className="font-medium">{stats.totalFiles}</span>
                       </div>
-                      <div className="flex justify-between py-2">
+                      <div className="flex justify-between py-2 border-b">
                         <span className="text-muted-foreground">Storage Used</span>
                         <span className="font-medium">{stats.storageUsed} GB</span>
                       </div>
+                      <div className="flex justify-between py-2 border-b">
+                        <span className="text-muted-foreground">Chunk Cache</span>
+                        <span className="font-medium">
+                          {stats.chunkCache.enabled
+                            ? `${formatBytes(stats.chunkCache.sizeBytes)} of ${formatBytes(stats.chunkCache.maxBytes)} (${stats.chunkCache.entries} chunks)`
+                            : "Disabled"}
+                        </span>
+                      </div>
+                      <div className="flex justify-between py-2">
+                        <span className="text-muted-foreground">Cache Hits / Misses</span>
+                        <span className="font-medium">
+                          {stats.chunkCache.hits} / {stats.chunkCache.misses}
+                          {stats.chunkCache.evictions > 0 && ` (${stats.chunkCache.evictions} evicted)`}
+                        </span>
+                      </div>
                     </div>
                   </div>
                 </div>
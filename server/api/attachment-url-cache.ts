@@ -0,0 +1,95 @@
+// URLs are treated as expired this long before Discord says, so a download
+// that starts just before the expiry does not fail halfway
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Upper bound on cached URLs; the oldest entries are dropped first
+const MAX_ENTRIES = 10000;
+
+interface CachedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+/**
+ * Get the expiry of a signed Discord CDN URL
+ * Signed URLs carry the expiry as a hex Unix timestamp in the `ex` parameter
+ * @param url Attachment URL
+ * @returns Expiry in milliseconds since the epoch, or null if the URL is not signed
+ */
+export function getAttachmentUrlExpiry(url: string): number | null {
+  let expiry: string | null;
+  try {
+    expiry = new URL(url).searchParams.get('ex');
+  } catch {
+    return null;
+  }
+  if (!expiry || !/^[0-9a-f]+$/i.test(expiry)) {
+    return null;
+  }
+  return parseInt(expiry, 16) * 1000;
+}
+
+/**
+ * Cache of signed attachment URLs, keyed by channel, message, attachment
+ * position and name, so a chunk can be downloaded again without re-fetching
+ * its message until the URL expires
+ */
+export class AttachmentUrlCache {
+  private entries = new Map<string, CachedUrl>();
+
+  /**
+   * Get a cached URL that is still good for a while
+   * @returns The URL, or null if none is cached or it is about to expire
+   */
+  get(channelId: string, messageId: string, filename?: string, attachmentIndex?: number): string | null {
+    const key = this.getKey(channelId, messageId, filename, attachmentIndex);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt - EXPIRY_MARGIN_MS <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.url;
+  }
+
+  /**
+   * Cache a URL until its `ex` expiry; URLs that are not signed are not cached
+   */
+  set(channelId: string, messageId: string, filename: string | undefined, attachmentIndex: number | undefined, url: string) {
+    const expiresAt = getAttachmentUrlExpiry(url);
+    if (expiresAt === null || expiresAt - EXPIRY_MARGIN_MS <= Date.now()) {
+      return;
+    }
+
+    const key = this.getKey(channelId, messageId, filename, attachmentIndex);
+    this.entries.delete(key);
+    this.entries.set(key, { url, expiresAt });
+
+    if (this.entries.size > MAX_ENTRIES) {
+      // Maps iterate in insertion order, so the first key is the oldest
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Forget the URLs of every attachment of a message
+   */
+  deleteMessage(channelId: string, messageId: string) {
+    const prefix = `${channelId}:${messageId}:`;
+    const stale: string[] = [];
+    this.entries.forEach((_, key) => {
+      if (key.startsWith(prefix)) {
+        stale.push(key);
+      }
+    });
+    stale.forEach(key => this.entries.delete(key));
+  }
+
+  private getKey(channelId: string, messageId: string, filename?: string, attachmentIndex?: number): string {
+    return `${channelId}:${messageId}:${attachmentIndex ?? ''}:${filename ?? ''}`;
+  }
+}
+
+export const attachmentUrlCache = new AttachmentUrlCache();
@@ -0,0 +1,32 @@
+import { type Channel, type StorageBackendKind } from '@shared/schema';
+import { discordService } from './discord-service';
+import { localStorageBackend } from './local-storage-backend';
+import { type BackendTarget, type StorageBackend } from './storage-backend';
+
+const backends: Record<StorageBackendKind, StorageBackend> = {
+  discord: discordService,
+  local: localStorageBackend,
+};
+
+/**
+ * Get the storage backend of a given kind
+ */
+export function getStorageBackend(kind: StorageBackendKind): StorageBackend {
+  return backends[kind];
+}
+
+/**
+ * Get the backend a channel stores its chunks in, and where within it
+ * @param channel Channel record
+ * @param token Discord token, if the caller has one
+ */
+export function getChannelBackend(channel: Channel, token?: string): { backend: StorageBackend; target: BackendTarget } {
+  return {
+    backend: getStorageBackend(channel.backend),
+    target: {
+      channelId: channel.discord_channel_id,
+      token,
+      webhookUrl: channel.webhook_url ?? undefined,
+    },
+  };
+}
@@ -1,5 +1,6 @@
 import { storage } from '../storage';
-import { discordService } from './discord-service';
+import { uploadService, type UploadOptions } from './upload-service';
+import { compressionService } from './compression-service';
 import { profileService } from './profile-service';
 import { WebSocket } from 'ws';
 
@@ -44,9 +45,18 @@ export class BatchService {
    * @param files Files to upload
    * @param channelId Discord channel ID
    * @param token Discord token
+   * @param replicationFactor Copies to keep of each chunk of every file
+   * @param options Transfer options such as chunk concurrency
    * @returns Created batch operation
    */
-  async createBatchUpload(userId: number, files: Express.Multer.File[], channelId: string, token: string) {
+  async createBatchUpload(
+    userId: number,
+    files: Express.Multer.File[],
+    channelId: string,
+    token: string,
+    replicationFactor: number = 1,
+    options: UploadOptions = {}
+  ) {
     // Create the batch operation
     const batchOp = await storage.createBatchOperation({
       user_id: userId,
@@ -56,7 +66,7 @@ export class BatchService {
     });
     
     // Process the batch in the background
-    this.processBatchUpload(batchOp.id, userId, files, channelId, token);
+    this.processBatchUpload(batchOp.id, userId, files, channelId, token, replicationFactor, options);
     
     return batchOp;
   }
@@ -68,13 +78,17 @@ export class BatchService {
    * @param files Files to upload
    * @param channelId Discord channel ID
    * @param token Discord token
+   * @param replicationFactor Copies to keep of each chunk of every file
+   * @param options Transfer options such as chunk concurrency
    */
   private async processBatchUpload(
     batchId: number,
     userId: number,
     files: Express.Multer.File[],
     channelId: string,
-    token: string
+    token: string,
+    replicationFactor: number,
+    options: UploadOptions
   ) {
     // Update batch status
     await storage.updateBatchOperation(batchId, { status: 'in_progress' });
@@ -107,11 +121,14 @@ export class BatchService {
           filename: file.originalname,
           original_filename: file.originalname,
           size_bytes: file.size,
-          type: file.size > 8 * 1024 * 1024 ? 'large_chunked' : 'normal',
+          // Settled by the upload, once the channel's chunk size is known
+          type: 'normal',
           channel_id: channel.id,
           mime_type: file.mimetype,
           upload_complete: false,
           is_public: false,
+          replication_factor: replicationFactor,
+          compression: compressionService.chooseCodec(undefined, channel, file.mimetype),
         });
         
         // Create batch item record
@@ -121,11 +138,8 @@ export class BatchService {
           status: 'pending',
         });
         
-        // Upload the file
-        const messageId = await discordService.uploadFile(channelId, token, file);
-        
-        // Update file record
-        await storage.updateFileUploadComplete(fileRecord.id, messageId);
+        // Upload the file; this also marks the file record complete
+        await uploadService.uploadBufferToFile(fileRecord, channel, token, file, options);
         
         // Update batch item
         await storage.updateBatchOperationItem(batchItem.id, { status: 'completed' });
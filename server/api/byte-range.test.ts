@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getPartSlices } from './byte-range';
+
+describe('getPartSlices', () => {
+  const sizes = [4, 4, 2];
+
+  it('reads every part whole without a range', () => {
+    assert.deepEqual(getPartSlices(sizes), [
+      { index: 0, from: 0, to: 4 },
+      { index: 1, from: 0, to: 4 },
+      { index: 2, from: 0, to: 2 },
+    ]);
+  });
+
+  it('keeps empty parts of a whole read', () => {
+    assert.deepEqual(getPartSlices([3, 0]), [
+      { index: 0, from: 0, to: 3 },
+      { index: 1, from: 0, to: 0 },
+    ]);
+  });
+
+  it('reads only the bytes of a range within one part', () => {
+    assert.deepEqual(getPartSlices(sizes, { start: 5, end: 6 }), [{ index: 1, from: 1, to: 3 }]);
+  });
+
+  it('splits a range across part boundaries', () => {
+    assert.deepEqual(getPartSlices(sizes, { start: 3, end: 8 }), [
+      { index: 0, from: 3, to: 4 },
+      { index: 1, from: 0, to: 4 },
+      { index: 2, from: 0, to: 1 },
+    ]);
+  });
+
+  it('maps the first and last bytes of the file', () => {
+    assert.deepEqual(getPartSlices(sizes, { start: 0, end: 0 }), [{ index: 0, from: 0, to: 1 }]);
+    assert.deepEqual(getPartSlices(sizes, { start: 9, end: 9 }), [{ index: 2, from: 1, to: 2 }]);
+  });
+
+  it('skips empty parts inside a range', () => {
+    assert.deepEqual(getPartSlices([2, 0, 2], { start: 1, end: 2 }), [
+      { index: 0, from: 1, to: 2 },
+      { index: 2, from: 0, to: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,34 @@
+// Inclusive byte range of a file, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Bytes [from, to) of the part at `index` that fall inside a read
+export interface PartSlice {
+  index: number;
+  from: number;
+  to: number;
+}
+
+/**
+ * Map a byte range of a file onto the parts it was stored in
+ * Without a range every part is read whole, empty ones included
+ * @param partSizes Size of each part, in part order
+ * @param range Bytes of the file to read; the whole file if left out
+ * @returns The parts overlapping the range, and which of their bytes are wanted
+ */
+export function getPartSlices(partSizes: number[], range?: ByteRange): PartSlice[] {
+  const slices: PartSlice[] = [];
+  let offset = 0;
+  for (let index = 0; index < partSizes.length; index++) {
+    const partStart = offset;
+    offset += partSizes[index];
+    const from = Math.max(range?.start ?? 0, partStart);
+    const to = Math.min(range ? range.end + 1 : offset, offset);
+    if (from < to || (!range && partSizes[index] === 0)) {
+      slices.push({ index, from: from - partStart, to: to - partStart });
+    }
+  }
+  return slices;
+}
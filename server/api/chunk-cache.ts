@@ -0,0 +1,244 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+
+const writeFileAsync = promisify(fs.writeFile);
+const readFileAsync = promisify(fs.readFile);
+const renameAsync = promisify(fs.rename);
+const unlinkAsync = promisify(fs.unlink);
+const mkdirAsync = promisify(fs.mkdir);
+const readdirAsync = promisify(fs.readdir);
+const statAsync = promisify(fs.stat);
+const utimesAsync = promisify(fs.utimes);
+
+// Cached chunks are stored as fileId-partNumber-sha256
+const ENTRY_NAME_PATTERN = /^(\d+)-(\d+)-([0-9a-f]{64})$/;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+export interface ChunkCacheStats {
+  enabled: boolean;
+  hits: number;
+  misses: number;
+  evictions: number;
+  entries: number;
+  sizeBytes: number;
+  maxBytes: number;
+}
+
+/**
+ * On-disk cache of downloaded file parts, so popular files are not fetched
+ * from the storage backend on every download
+ * Entries are keyed by file, part number and the part's SHA-256: a part
+ * stored again with other contents never hits an old entry, and hits are
+ * checked against the checksum before they are used. Only parts with a
+ * recorded checksum are cached. Once the cache is over its size cap, the
+ * least recently used entries are evicted
+ */
+export class ChunkCache {
+  // Entry sizes by name; Maps iterate in insertion order, so the least
+  // recently used entry comes first
+  private entries = new Map<string, number>();
+  private sizeBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private loading: Promise<void> | null = null;
+
+  constructor(private dir: string, private maxBytes: number) {}
+
+  /**
+   * Change the size cap, evicting entries if the cache is now over it
+   * @param maxBytes New cap; 0 disables the cache and empties it
+   */
+  async setMaxBytes(maxBytes: number): Promise<void> {
+    this.maxBytes = maxBytes;
+    await this.load();
+    await this.evict();
+  }
+
+  /**
+   * Get a cached part
+   * @returns The part, or null if it is not cached or its entry is damaged
+   */
+  async get(fileId: number, partNumber: number, sha256: string | null): Promise<Buffer | null> {
+    if (this.maxBytes === 0 || !sha256 || !SHA256_PATTERN.test(sha256)) {
+      return null;
+    }
+    await this.load();
+
+    const name = this.getEntryName(fileId, partNumber, sha256);
+    const size = this.entries.get(name);
+    if (size === undefined) {
+      this.misses++;
+      return null;
+    }
+
+    try {
+      const data = await readFileAsync(this.getEntryPath(name));
+      if (crypto.createHash('sha256').update(data).digest('hex') !== sha256) {
+        throw new Error('contents do not match the checksum');
+      }
+
+      this.entries.delete(name);
+      this.entries.set(name, size);
+      // Keeps the eviction order across restarts; failing to is harmless
+      const now = new Date();
+      utimesAsync(this.getEntryPath(name), now, now).catch(() => undefined);
+
+      this.hits++;
+      return data;
+    } catch (error) {
+      console.warn(`Dropping cached chunk ${name}:`, error);
+      await this.remove(name);
+      this.misses++;
+      return null;
+    }
+  }
+
+  /**
+   * Cache a part that was read and verified
+   * Failing to write the entry is logged and otherwise ignored, as the
+   * download does not depend on it
+   */
+  async set(fileId: number, partNumber: number, sha256: string | null, data: Buffer): Promise<void> {
+    if (this.maxBytes === 0 || data.length > this.maxBytes || !sha256 || !SHA256_PATTERN.test(sha256)) {
+      return;
+    }
+    await this.load();
+
+    const name = this.getEntryName(fileId, partNumber, sha256);
+    if (this.entries.has(name)) {
+      return;
+    }
+
+    try {
+      await mkdirAsync(this.dir, { recursive: true });
+      // Unique temporary name, as the same part can be read twice at once
+      const tempPath = `${this.getEntryPath(name)}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+      await writeFileAsync(tempPath, data);
+      await renameAsync(tempPath, this.getEntryPath(name));
+    } catch (error) {
+      console.warn(`Could not cache chunk ${name}:`, error);
+      return;
+    }
+
+    if (!this.entries.has(name)) {
+      this.entries.set(name, data.length);
+      this.sizeBytes += data.length;
+    }
+    await this.evict();
+  }
+
+  /**
+   * Drop every cached part of a file, when it is deleted or stored again
+   */
+  async invalidateFile(fileId: number): Promise<void> {
+    await this.load();
+    const prefix = `${fileId}-`;
+    const stale: string[] = [];
+    this.entries.forEach((_, name) => {
+      if (name.startsWith(prefix)) {
+        stale.push(name);
+      }
+    });
+    for (const name of stale) {
+      await this.remove(name);
+    }
+  }
+
+  /**
+   * Get hit and miss counts since the server started, and how full the cache is
+   */
+  getStats(): ChunkCacheStats {
+    return {
+      enabled: this.maxBytes > 0,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      entries: this.entries.size,
+      sizeBytes: this.sizeBytes,
+      maxBytes: this.maxBytes,
+    };
+  }
+
+  /**
+   * Read the entries left by earlier runs, least recently used first
+   * Temporary files of interrupted writes are deleted
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        let names: string[];
+        try {
+          names = await readdirAsync(this.dir);
+        } catch (error) {
+          // Start empty; entries written from now on are still tracked
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.warn(`Could not read the chunk cache in ${this.dir}:`, error);
+          }
+          return;
+        }
+
+        const found: { name: string; size: number; usedAt: number }[] = [];
+        for (const name of names) {
+          const entryPath = this.getEntryPath(name);
+          if (!ENTRY_NAME_PATTERN.test(name)) {
+            if (name.endsWith('.tmp')) {
+              await unlinkAsync(entryPath).catch(() => undefined);
+            }
+            continue;
+          }
+          const stats = await statAsync(entryPath).catch(() => null);
+          if (!stats) {
+            continue;
+          }
+          found.push({ name, size: stats.size, usedAt: stats.mtimeMs });
+        }
+
+        found.sort((a, b) => a.usedAt - b.usedAt).forEach(entry => {
+          this.entries.set(entry.name, entry.size);
+          this.sizeBytes += entry.size;
+        });
+      })();
+    }
+    return this.loading;
+  }
+
+  private async evict(): Promise<void> {
+    while (this.sizeBytes > this.maxBytes && this.entries.size > 0) {
+      await this.remove(this.entries.keys().next().value!);
+      this.evictions++;
+    }
+  }
+
+  private async remove(name: string): Promise<void> {
+    const size = this.entries.get(name);
+    if (size === undefined) {
+      return;
+    }
+    this.entries.delete(name);
+    this.sizeBytes -= size;
+    try {
+      await unlinkAsync(this.getEntryPath(name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Could not delete cached chunk ${name}:`, error);
+      }
+    }
+  }
+
+  private getEntryName(fileId: number, partNumber: number, sha256: string): string {
+    return `${fileId}-${partNumber}-${sha256}`;
+  }
+
+  private getEntryPath(name: string): string {
+    return path.join(this.dir, name);
+  }
+}
+
+// Disabled until the routes apply the configured size
+export const chunkCache = new ChunkCache(
+  process.env.CHUNK_CACHE_DIR || path.join(process.cwd(), 'chunk-cache'),
+  0
+);
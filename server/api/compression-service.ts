@@ -0,0 +1,153 @@
+import zlib from 'zlib';
+import { type Transform } from 'stream';
+import { type Channel, type CompressionCodec, type File } from '@shared/schema';
+
+// Types whose contents are compressed already; compressing them again costs
+// time and saves next to nothing
+const COMPRESSED_MIME_TYPES = [
+  'application/gzip',
+  'application/x-gzip',
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/x-7z-compressed',
+  'application/x-rar-compressed',
+  'application/vnd.rar',
+  'application/x-bzip2',
+  'application/x-xz',
+  'application/zstd',
+  'application/x-zstd',
+  'application/java-archive',
+  'application/epub+zip',
+  'application/pdf',
+  'font/woff',
+  'font/woff2',
+];
+const COMPRESSED_MIME_PREFIXES = [
+  'audio/',
+  'video/',
+  'application/vnd.openxmlformats-officedocument.',
+  'application/vnd.oasis.opendocument.',
+];
+// Images are compressed, apart from these
+const UNCOMPRESSED_IMAGE_TYPES = ['image/svg+xml', 'image/bmp', 'image/x-ms-bmp', 'image/tiff'];
+
+// Extension and type of compressed chunks, so they are not taken for the file itself
+const CODEC_EXTENSIONS: Record<CompressionCodec, string> = { gzip: '.gz', brotli: '.br', zstd: '.zst' };
+const CODEC_MIME_TYPES: Record<CompressionCodec, string> = {
+  gzip: 'application/gzip',
+  brotli: 'application/x-brotli',
+  zstd: 'application/zstd',
+};
+
+// zstd is only in newer Node.js releases
+const zstd = zlib as typeof zlib & {
+  createZstdCompress?: () => Transform;
+  createZstdDecompress?: () => Transform;
+};
+
+/**
+ * Service for compressing files before they are split into parts
+ * A file is compressed as one stream, so its parts hold consecutive slices
+ * of the compressed bytes and are decompressed together on download
+ */
+export class CompressionService {
+  /**
+   * Check whether this server can compress and decompress with a codec
+   */
+  isAvailable(codec: CompressionCodec): boolean {
+    return codec !== 'zstd' || (!!zstd.createZstdCompress && !!zstd.createZstdDecompress);
+  }
+
+  /**
+   * Get the codecs this server supports
+   */
+  getAvailableCodecs(): CompressionCodec[] {
+    return (['gzip', 'brotli', 'zstd'] as CompressionCodec[]).filter(codec => this.isAvailable(codec));
+  }
+
+  /**
+   * Check whether a type's contents are compressed already, going by its MIME type
+   */
+  isCompressedType(mimeType: string | null | undefined): boolean {
+    const type = (mimeType ?? '').split(';')[0].trim().toLowerCase();
+    if (type.startsWith('image/')) {
+      return !UNCOMPRESSED_IMAGE_TYPES.includes(type);
+    }
+    return COMPRESSED_MIME_TYPES.includes(type)
+      || COMPRESSED_MIME_PREFIXES.some(prefix => type.startsWith(prefix));
+  }
+
+  /**
+   * Pick the codec for an upload
+   * @param requested Codec asked for with the upload, 'none' for no compression,
+   *                  or undefined to use the channel's
+   * @param channel Channel the file is uploaded to
+   * @param mimeType Type of the file
+   * @returns The codec, or null if the file is stored as it is
+   * @throws Error if the codec is not supported by this server
+   */
+  chooseCodec(requested: CompressionCodec | 'none' | undefined, channel: Channel, mimeType: string | null): CompressionCodec | null {
+    const codec = requested === undefined ? channel.compression : requested === 'none' ? null : requested;
+    if (!codec || this.isCompressedType(mimeType)) {
+      return null;
+    }
+    if (!this.isAvailable(codec)) {
+      throw new Error(`Compression with ${codec} is not supported by this server`);
+    }
+    return codec;
+  }
+
+  /**
+   * Get the name a file's chunks are stored under; parts and parity chunks
+   * add their own suffixes to it
+   * Compressed files get the codec's extension
+   */
+  getStoredName(file: Pick<File, 'original_filename' | 'compression'>): string {
+    return file.compression ? `${file.original_filename}${CODEC_EXTENSIONS[file.compression]}` : file.original_filename;
+  }
+
+  /**
+   * Get the MIME type a single-part file's chunk is stored with
+   * Compressed files get the codec's type
+   */
+  getStoredType(file: Pick<File, 'mime_type' | 'compression'>): string {
+    return file.compression ? CODEC_MIME_TYPES[file.compression] : file.mime_type || 'application/octet-stream';
+  }
+
+  /**
+   * Create a stream that compresses what is written to it
+   */
+  createCompressor(codec: CompressionCodec): Transform {
+    switch (codec) {
+      case 'gzip':
+        return zlib.createGzip();
+      case 'brotli':
+        return zlib.createBrotliCompress();
+      case 'zstd':
+        return this.requireZstd().createZstdCompress!();
+    }
+  }
+
+  /**
+   * Create a stream that decompresses what is written to it
+   */
+  createDecompressor(codec: CompressionCodec): Transform {
+    switch (codec) {
+      case 'gzip':
+        return zlib.createGunzip();
+      case 'brotli':
+        return zlib.createBrotliDecompress();
+      case 'zstd':
+        return this.requireZstd().createZstdDecompress!();
+    }
+  }
+
+  private requireZstd(): typeof zstd {
+    if (!this.isAvailable('zstd')) {
+      throw new Error('zstd is not supported by this server');
+    }
+    return zstd;
+  }
+}
+
+export const compressionService = new CompressionService();
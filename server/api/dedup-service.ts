@@ -0,0 +1,56 @@
+import { storage } from '../storage';
+import { type BackendTarget, type StorageBackend } from './storage-backend';
+import { type SharedChunk } from '@shared/schema';
+
+// Candidates looked up in the channel before a part is stored after all;
+// each lookup is a request to the backend
+const MAX_CANDIDATES = 3;
+
+// A channel a part is about to be written to
+export interface DedupDestination {
+  channelId: number;
+  backend: StorageBackend;
+  target: BackendTarget;
+}
+
+/**
+ * Service for deduplicating chunks by their contents
+ * Every part uploaded is recorded as a shared chunk under its SHA-256. A
+ * later part with the same contents, bound for the same channel, points at
+ * that chunk instead of being stored again; the chunk counts its references
+ * and its message is only deleted with the last one
+ */
+export class DedupService {
+  /**
+   * Find a stored chunk that a new part can point at instead of being stored
+   * A candidate is only used if it is still in the channel and readable
+   * with the uploader's credentials. Readers find it by its chunk ID and
+   * position, so the name it was stored under does not matter
+   * @param destination Channel the part is bound for
+   * @param sha256 Hex SHA-256 of the part
+   * @param size Size of the part in bytes
+   * @returns The chunk, or null if the part has to be stored
+   */
+  async findChunk(destination: DedupDestination, sha256: string, size: number): Promise<SharedChunk | null> {
+    const candidates = (await storage.findSharedChunks(destination.channelId, sha256, size)).slice(0, MAX_CANDIDATES);
+    for (const candidate of candidates) {
+      try {
+        const stored = await destination.backend.statChunk(
+          destination.target,
+          candidate.chunk_id,
+          candidate.filename,
+          candidate.attachment_index
+        );
+        if (stored.size === candidate.size_bytes) {
+          return candidate;
+        }
+      } catch (error) {
+        // Storing the part again is always an option
+        console.warn(`Shared chunk ${candidate.id} cannot be reused:`, error);
+      }
+    }
+    return null;
+  }
+}
+
+export const dedupService = new DedupService();
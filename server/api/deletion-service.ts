@@ -0,0 +1,164 @@
+import { storage } from '../storage';
+import { getChannelBackend } from './backend-registry';
+import { chunkCache } from './chunk-cache';
+import { type Channel, type File, type PendingDeletion } from '@shared/schema';
+
+// A stored chunk, by the channel it is in
+export interface ChunkRef {
+  channelId: number;
+  chunkId: string;
+}
+
+export interface DeletionResult {
+  chunks_deleted: number;
+  chunks_pending: number; // Could not be deleted now; recorded for a retry
+  chunks_shared: number; // Kept, as other files still refer to them
+}
+
+/**
+ * Service for deleting files together with the chunks backing them
+ * Chunks are deleted through their channel's backend; for Discord, the
+ * shared client already waits out rate limits and retries transient errors,
+ * so a chunk that still fails is recorded as a pending deletion and retried
+ * later instead of failing the whole delete
+ */
+export class DeletionService {
+  /**
+   * List every chunk stored for a file: parts, replicas, parity chunks and
+   * its manifest, each once even when a message holds several parts
+   * @param file File record
+   */
+  async getFileChunks(file: File): Promise<ChunkRef[]> {
+    const chunks = new Map<string, ChunkRef>();
+    const add = (channelId: number, chunkId: string | null) => {
+      if (chunkId) {
+        chunks.set(`${channelId}:${chunkId}`, { channelId, chunkId });
+      }
+    };
+
+    add(file.channel_id, file.discord_message_id);
+    add(file.channel_id, file.manifest_message_id);
+    for (const part of await storage.getFileParts(file.id)) {
+      add(part.channel_id ?? file.channel_id, part.discord_message_id);
+    }
+    for (const replica of await storage.getFilePartReplicas(file.id)) {
+      add(replica.channel_id, replica.chunk_id);
+    }
+    for (const parityPart of await storage.getFileParityParts(file.id)) {
+      add(parityPart.channel_id, parityPart.discord_message_id);
+    }
+
+    return Array.from(chunks.values());
+  }
+
+  /**
+   * Delete a file's records and cached parts, then every chunk stored for it
+   * The records go first, so the file is gone even if some chunks cannot
+   * be deleted; those are recorded as pending deletions. Chunks that other
+   * files share are kept until the last of those files is deleted
+   * @param file File record
+   * @param token Discord token; channels with a webhook can do without
+   * @returns How many chunks were deleted, left pending, and kept
+   */
+  async deleteFile(file: File, token: string | undefined): Promise<DeletionResult> {
+    const chunks = await this.getFileChunks(file);
+    await storage.deleteFile(file.id);
+    await chunkCache.invalidateFile(file.id);
+
+    const unshared: ChunkRef[] = [];
+    for (const channelId of Array.from(new Set(chunks.map(chunk => chunk.channelId)))) {
+      const channelChunks = chunks.filter(chunk => chunk.channelId === channelId);
+      const shared = await storage.getLiveSharedChunkIds(channelId, channelChunks.map(chunk => chunk.chunkId));
+      unshared.push(...channelChunks.filter(chunk => !shared.has(chunk.chunkId)));
+    }
+
+    const result = await this.deleteChunks(unshared, token, { fileId: file.id, filename: file.original_filename });
+    return { ...result, chunks_shared: chunks.length - unshared.length };
+  }
+
+  /**
+   * Delete chunks that no record refers to any more
+   * @param chunks Chunks to delete
+   * @param token Discord token; channels with a webhook can do without
+   * @param origin File the chunks belonged to, kept with any pending deletion
+   * @returns How many chunks were deleted and how many are left pending
+   */
+  async deleteChunks(
+    chunks: ChunkRef[],
+    token: string | undefined,
+    origin: { fileId: number | null; filename: string | null }
+  ): Promise<DeletionResult> {
+    const channels = new Map<number, Channel | undefined>();
+    const result: DeletionResult = { chunks_deleted: 0, chunks_pending: 0, chunks_shared: 0 };
+    for (const chunk of chunks) {
+      if (!channels.has(chunk.channelId)) {
+        channels.set(chunk.channelId, await storage.getChannel(chunk.channelId));
+      }
+
+      try {
+        await this.deleteChunk(channels.get(chunk.channelId), chunk.chunkId, token);
+        result.chunks_deleted++;
+      } catch (error) {
+        console.warn(`Could not delete chunk ${chunk.chunkId} of ${origin.filename ?? 'an unknown file'}:`, error);
+        await storage.createPendingDeletion({
+          channel_id: chunk.channelId,
+          chunk_id: chunk.chunkId,
+          file_id: origin.fileId,
+          filename: origin.filename,
+          last_error: error instanceof Error ? error.message : String(error),
+        });
+        result.chunks_pending++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the chunks of deleted files still waiting to be deleted
+   */
+  async getPendingDeletions(): Promise<PendingDeletion[]> {
+    return storage.getPendingDeletions();
+  }
+
+  /**
+   * Try again to delete every pending chunk
+   * @param token Discord token for channels without a webhook
+   * @returns How many chunks were deleted and how many are still pending
+   */
+  async retryPendingDeletions(token: string | undefined): Promise<DeletionResult> {
+    const channels = new Map<number, Channel | undefined>();
+    const result: DeletionResult = { chunks_deleted: 0, chunks_pending: 0, chunks_shared: 0 };
+
+    for (const pending of await storage.getPendingDeletions()) {
+      if (!channels.has(pending.channel_id)) {
+        channels.set(pending.channel_id, await storage.getChannel(pending.channel_id));
+      }
+
+      try {
+        await this.deleteChunk(channels.get(pending.channel_id), pending.chunk_id, token);
+        await storage.deletePendingDeletion(pending.id);
+        result.chunks_deleted++;
+      } catch (error) {
+        await storage.updatePendingDeletion(pending.id, {
+          attempts: pending.attempts + 1,
+          last_error: error instanceof Error ? error.message : String(error),
+          last_attempt_at: new Date(),
+        });
+        result.chunks_pending++;
+      }
+    }
+
+    return result;
+  }
+
+  private async deleteChunk(channel: Channel | undefined, chunkId: string, token: string | undefined): Promise<void> {
+    if (!channel) {
+      throw new Error('The chunk\'s channel no longer exists');
+    }
+    const { backend, target } = getChannelBackend(channel, token);
+    await backend.deleteChunk(target, chunkId);
+  }
+}
+
+export const deletionService = new DeletionService();
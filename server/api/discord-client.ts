@@ -0,0 +1,240 @@
+import axios, { type AxiosResponse, type RawAxiosResponseHeaders, type AxiosResponseHeaders } from 'axios';
+
+const API_BASE_URL = 'https://discord.com/api/v10';
+
+// Retry policy for 429s and transient failures
+const MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30 * 1000;
+
+// Window assumed for a bucket before Discord has told us its real reset time
+const DEFAULT_RESET_MS = 1000;
+
+// Waiting requests re-check their bucket at least this often, so they pick up
+// fresher limits from responses that arrive while they sleep
+const MAX_WAIT_STEP_MS = 100;
+
+const TRANSIENT_STATUSES = [500, 502, 503, 504];
+
+// Network errors raised before a request reaches Discord; anything else may
+// have been processed with only the response lost
+const UNSENT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH'];
+
+// Methods that may not be repeated once Discord could have processed them;
+// a repeated POST creates a second message
+const NON_IDEMPOTENT_METHODS: DiscordRequest['method'][] = ['POST'];
+
+export interface DiscordRequest {
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  path: string; // Relative to the API base, e.g. channels/123/messages
+  token?: string;
+  params?: Record<string, string | number | undefined>;
+  data?: unknown;
+}
+
+interface RateLimitBucket {
+  limit: number;
+  remaining: number;
+  resetAt: number;
+  queue: Promise<void>;
+}
+
+type ResponseHeaders = RawAxiosResponseHeaders | AxiosResponseHeaders;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Shared HTTP client for the Discord REST API
+ * Tracks per-route rate limit buckets and the global limit from Discord's
+ * X-RateLimit-* headers, queues requests until a bucket has capacity and
+ * retries 429s and transient errors with backoff
+ */
+export class DiscordClient {
+  // Route key -> bucket hash reported by Discord
+  private routeBuckets = new Map<string, string>();
+  private buckets = new Map<string, RateLimitBucket>();
+  private globalResetAt = 0;
+
+  /**
+   * Send a request to the Discord API, waiting for rate limit capacity first
+   * POSTs are only retried after a 429 or an error that kept them from
+   * reaching Discord; other requests are also retried on transient errors.
+   * Throws the final axios error if the request still fails after retries
+   */
+  async request<T = any>(request: DiscordRequest): Promise<AxiosResponse<T>> {
+    const { routeKey, majorParameter } = this.getRoute(request.method, request.path);
+
+    for (let attempt = 0; ; attempt++) {
+      const bucket = this.getBucket(routeKey, majorParameter);
+      await this.acquire(bucket);
+
+      try {
+        const response = await axios.request<T>({
+          method: request.method,
+          url: `${API_BASE_URL}/${request.path}`,
+          params: request.params,
+          data: request.data,
+          headers: request.token ? { 'Authorization': request.token } : undefined,
+        });
+
+        this.updateBucket(routeKey, majorParameter, response.headers);
+        return response;
+      } catch (error) {
+        if (!axios.isAxiosError(error) || attempt >= MAX_RETRIES) {
+          throw error;
+        }
+
+        const response = error.response;
+        if (response) {
+          this.updateBucket(routeKey, majorParameter, response.headers);
+        }
+
+        if (response?.status === 429) {
+          const retryAfterMs = this.getRetryAfter(response.data, response.headers);
+          const isGlobal = response.data?.global === true || response.headers['x-ratelimit-global'] === 'true';
+
+          if (isGlobal) {
+            this.globalResetAt = Date.now() + retryAfterMs;
+          } else {
+            const limitedBucket = this.getBucket(routeKey, majorParameter);
+            limitedBucket.remaining = 0;
+            limitedBucket.resetAt = Date.now() + retryAfterMs;
+          }
+
+          console.warn(`Discord rate limit hit on ${routeKey}, retrying in ${retryAfterMs}ms`);
+          continue;
+        }
+
+        const isUnsent = !response && UNSENT_ERROR_CODES.includes(error.code ?? '');
+        const isTransient = !response || TRANSIENT_STATUSES.includes(response.status);
+        if (isUnsent || (isTransient && !NON_IDEMPOTENT_METHODS.includes(request.method))) {
+          await sleep(this.getBackoff(attempt));
+          continue;
+        }
+
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Download an attachment from Discord's CDN
+   * The CDN is not subject to API buckets, but transient failures are retried
+   */
+  async fetchAttachment(url: string): Promise<Buffer> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await axios.get(url, { responseType: 'arraybuffer' });
+        return Buffer.from(response.data);
+      } catch (error) {
+        if (!axios.isAxiosError(error) || attempt >= MAX_RETRIES) {
+          throw error;
+        }
+
+        const response = error.response;
+        if (response?.status === 429) {
+          await sleep(this.getRetryAfter(undefined, response.headers));
+        } else if (!response || TRANSIENT_STATUSES.includes(response.status)) {
+          await sleep(this.getBackoff(attempt));
+        } else {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Derives the rate limit route for a request
+   * Discord buckets routes by their top-level resource (the major parameter)
+   * while other IDs in the path share a bucket
+   */
+  private getRoute(method: string, requestPath: string): { routeKey: string; majorParameter: string } {
+    const segments = requestPath.split('?')[0].split('/');
+    const majorSegments = ['channels', 'guilds'].includes(segments[0])
+      ? 2
+      : segments[0] === 'webhooks' ? 3 : 1;
+
+    const majorParameter = segments.slice(0, majorSegments).join('/');
+    const template = segments.slice(majorSegments).map(segment => /^\d{15,}$/.test(segment) ? ':id' : segment);
+    const routeKey = [method, segments[0], ...template].join(' ');
+
+    return { routeKey, majorParameter };
+  }
+
+  private getBucket(routeKey: string, majorParameter: string): RateLimitBucket {
+    const hash = this.routeBuckets.get(routeKey);
+    const key = `${hash ?? routeKey}:${majorParameter}`;
+
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { limit: 1, remaining: 1, resetAt: 0, queue: Promise.resolve() };
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Waits in line for a free request slot in a bucket
+   */
+  private acquire(bucket: RateLimitBucket): Promise<void> {
+    const slot = bucket.queue.then(() => this.waitForSlot(bucket));
+    bucket.queue = slot.catch(() => undefined);
+    return slot;
+  }
+
+  private async waitForSlot(bucket: RateLimitBucket): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      const wait = Math.max(
+        this.globalResetAt - now,
+        bucket.remaining > 0 ? 0 : bucket.resetAt - now
+      );
+      if (wait <= 0) break;
+      await sleep(Math.min(wait, MAX_WAIT_STEP_MS));
+    }
+
+    if (bucket.remaining <= 0) {
+      // The window has reset; assume the last known limit until Discord reports otherwise
+      bucket.remaining = bucket.limit;
+    }
+    if (bucket.resetAt <= Date.now()) {
+      bucket.resetAt = Date.now() + DEFAULT_RESET_MS;
+    }
+    bucket.remaining--;
+  }
+
+  private updateBucket(routeKey: string, majorParameter: string, headers: ResponseHeaders) {
+    const hash = headers['x-ratelimit-bucket'];
+    if (typeof hash === 'string' && this.routeBuckets.get(routeKey) !== hash) {
+      // First time we learn this route's bucket; carry over the state tracked so far
+      const previous = this.getBucket(routeKey, majorParameter);
+      this.routeBuckets.set(routeKey, hash);
+      if (!this.buckets.has(`${hash}:${majorParameter}`)) {
+        this.buckets.set(`${hash}:${majorParameter}`, previous);
+      }
+    }
+
+    const bucket = this.getBucket(routeKey, majorParameter);
+    const limit = parseInt(String(headers['x-ratelimit-limit']), 10);
+    const remaining = parseInt(String(headers['x-ratelimit-remaining']), 10);
+    const resetAfter = parseFloat(String(headers['x-ratelimit-reset-after']));
+
+    if (!isNaN(limit)) bucket.limit = limit;
+    if (!isNaN(remaining)) bucket.remaining = remaining;
+    if (!isNaN(resetAfter)) bucket.resetAt = Date.now() + resetAfter * 1000;
+  }
+
+  private getRetryAfter(data: any, headers: ResponseHeaders): number {
+    const seconds = typeof data?.retry_after === 'number'
+      ? data.retry_after
+      : parseFloat(String(headers['retry-after']));
+    return isNaN(seconds) ? DEFAULT_RESET_MS : Math.ceil(seconds * 1000);
+  }
+
+  private getBackoff(attempt: number): number {
+    const backoff = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+    return backoff / 2 + Math.random() * backoff / 2;
+  }
+}
+
+export const discordClient = new DiscordClient();
@@ -1,17 +1,19 @@
 import axios from 'axios';
-import fs from 'fs';
-import path from 'path';
-import os from 'os';
-import { Readable } from 'stream';
-import { promisify } from 'util';
-
-const writeFileAsync = promisify(fs.writeFile);
-const readFileAsync = promisify(fs.readFile);
-const unlinkAsync = promisify(fs.unlink);
-const mkdirAsync = promisify(fs.mkdir);
-const readdirAsync = promisify(fs.readdir);
-
-interface MessageAttachment {
+import { discordClient } from './discord-client';
+import { attachmentUrlCache } from './attachment-url-cache';
+import {
+  ChunkUnavailableError,
+  type BackendTarget,
+  type ChunkListOptions,
+  type ChunkLocation,
+  type ChunkPage,
+  type ChunkUpload,
+  type StorageBackend,
+  type StoredChunk,
+  type TransferOptions,
+} from './storage-backend';
+
+export interface MessageAttachment {
   id: string;
   filename: string;
   size: number;
@@ -19,134 +21,187 @@ interface MessageAttachment {
   proxy_url: string;
 }
 
-interface DiscordMessage {
+export interface DiscordMessage {
   id: string;
+  timestamp?: string;
   attachments: MessageAttachment[];
 }
 
-// 9MB chunk size for Discord uploads (Discord limit is 8MB for regular users, 50MB for nitro)
-const CHUNK_SIZE = 9 * 1024 * 1024; // 9MB in bytes
+export interface MessageQuery {
+  before?: string;
+  after?: string;
+  limit?: number;
+}
 
-export class DiscordService {
-  private getDiscordApiHeaders(token: string) {
-    return {
-      'Authorization': token.startsWith('Bot ') ? token : `${token}`,
-      'Content-Type': 'application/json',
-    };
+export interface ChannelAttachment extends MessageAttachment {
+  message_id: string;
+  timestamp?: string;
+  attachment_index?: number; // Position among the message's attachments
+}
+
+export interface DiscordWebhook {
+  id: string;
+  name: string | null;
+  channel_id: string;
+  guild_id?: string;
+}
+
+export interface AttachmentPage {
+  attachments: ChannelAttachment[];
+  nextCursor: string | null;
+}
+
+// Discord caps a single message history request at 100 messages
+const MESSAGES_PER_REQUEST = 100;
+
+// Attachment listing: attachments wanted per page, and the most history
+// batches scanned to fill one page
+const DEFAULT_ATTACHMENT_PAGE_SIZE = 50;
+const MAX_BATCHES_PER_PAGE = 10;
+
+// Discord allows up to 10 attachments on a message
+const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// Largest attachment Discord accepts, indexed by the guild's boost tier
+const UPLOAD_LIMIT_BY_PREMIUM_TIER = [10, 10, 50, 100].map(megabytes => megabytes * 1024 * 1024);
+
+// Chunks are kept this much under the upload limit to leave room for the
+// rest of the multipart request
+const UPLOAD_LIMIT_HEADROOM = 1024 * 1024;
+
+// How long a channel's upload limit is trusted before asking Discord again
+const UPLOAD_LIMIT_CACHE_MS = 60 * 60 * 1000;
+
+// CDN responses for a signed attachment URL that has expired or been revoked
+const EXPIRED_URL_STATUSES = [403, 404, 410];
+
+// Accepts the URLs Discord shows under Integrations > Webhooks, on any client flavour
+const WEBHOOK_URL_PATTERN = /^https:\/\/(?:(?:canary|ptb)\.)?discord(?:app)?\.com\/api(?:\/v\d+)?\/webhooks\/(\d+)\/([\w-]+)\/?$/;
+
+/**
+ * Orders Discord snowflake IDs numerically without converting to numbers
+ */
+export function compareSnowflakes(a: string, b: string): number {
+  if (a.length !== b.length) {
+    return a.length - b.length;
   }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Discord storage backend: each chunk is an attachment, and the ID of its
+ * message is the chunk ID. Chunks stored together share a message
+ */
+export class DiscordService implements StorageBackend {
+  readonly maxChunksPerPut = MAX_ATTACHMENTS_PER_MESSAGE;
+
+  private uploadLimits = new Map<string, { limit: number | null; expiresAt: number }>();
 
   /**
-   * Creates a temporary directory for file operations
+   * Get the API path of a webhook from its URL
+   * The path carries the webhook's secret token, so it must not be logged
    */
-  private async createTempDir(): Promise<string> {
-    const tempDir = path.join(os.tmpdir(), `discord-file-upload-${Date.now()}`);
-    await mkdirAsync(tempDir, { recursive: true });
-    return tempDir;
+  private getWebhookPath(webhookUrl: string): string {
+    const match = WEBHOOK_URL_PATTERN.exec(webhookUrl.trim());
+    if (!match) {
+      throw new Error('Invalid Discord webhook URL');
+    }
+    return `webhooks/${match[1]}/${match[2]}`;
   }
 
   /**
-   * Auto-renames a file if it already exists
+   * Picks the token a request should be sent with, or fails if there is none
    */
-  private autoRename(filePath: string): string {
-    const dir = path.dirname(filePath);
-    const ext = path.extname(filePath);
-    const baseName = path.basename(filePath, ext);
-    let counter = 1;
-    let newPath = filePath;
-    
-    while (fs.existsSync(newPath)) {
-      newPath = path.join(dir, `${baseName}(${counter})${ext}`);
-      counter++;
+  private requireToken(target: BackendTarget): string {
+    if (!target.token) {
+      throw new Error('A Discord token is required for this channel');
     }
-    
-    return newPath;
+    return target.token;
   }
 
   /**
-   * Splits a file into multiple chunks of size CHUNK_SIZE
+   * Look up a webhook from its URL; no bot token is needed
+   * @param webhookUrl Discord webhook URL
+   * @returns The webhook, including the channel it posts to
    */
-  private async splitFile(filePath: string, tempDir: string): Promise<string[]> {
-    const fileData = await readFileAsync(filePath);
-    const totalChunks = Math.ceil(fileData.length / CHUNK_SIZE);
-    const chunkFiles: string[] = [];
-    
-    for (let i = 0; i < totalChunks; i++) {
-      const start = i * CHUNK_SIZE;
-      const end = Math.min(start + CHUNK_SIZE, fileData.length);
-      const chunkData = fileData.slice(start, end);
-      
-      const chunkFileName = `${path.basename(filePath)}.part${i + 1}`;
-      const chunkFilePath = path.join(tempDir, chunkFileName);
-      
-      await writeFileAsync(chunkFilePath, chunkData);
-      chunkFiles.push(chunkFilePath);
+  async getWebhook(webhookUrl: string): Promise<DiscordWebhook> {
+    try {
+      const response = await discordClient.request<DiscordWebhook>({
+        method: 'GET',
+        path: this.getWebhookPath(webhookUrl),
+      });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 401 || error.response?.status === 404) {
+          throw new Error('Webhook not found; it may have been deleted');
+        } else {
+          throw new Error(`Discord API error: ${error.response?.data?.message || error.message}`);
+        }
+      }
+      throw error;
     }
-    
-    return chunkFiles;
   }
 
   /**
-   * Merges file chunks back into a single file
+   * Upload a single file chunk to Discord as a message attachment
+   * Channels with a registered webhook are written through the webhook, so
+   * no bot token is needed
+   * @returns ID of the message holding the chunk
    */
-  private async mergeFiles(chunkFiles: string[], outputPath: string): Promise<string> {
-    // Ensure the output path is unique
-    const finalPath = this.autoRename(outputPath);
-    
-    // Create or truncate the output file
-    fs.writeFileSync(finalPath, '');
-    
-    // Sort chunk files by part number
-    chunkFiles.sort((a, b) => {
-      const partA = parseInt(a.split('.part')[1], 10);
-      const partB = parseInt(b.split('.part')[1], 10);
-      return partA - partB;
-    });
-    
-    // Append each chunk to the output file
-    for (const chunkFile of chunkFiles) {
-      const chunkData = await readFileAsync(chunkFile);
-      fs.appendFileSync(finalPath, chunkData);
-      
-      // Clean up chunk file
-      await unlinkAsync(chunkFile);
-    }
-    
-    return finalPath;
+  async putChunk(target: BackendTarget, data: Buffer, filename: string, mimetype: string): Promise<string> {
+    const [location] = await this.putChunks(target, [{ data, filename, mimetype }]);
+    return location.chunkId;
   }
 
   /**
-   * Helper method to upload a single file chunk to Discord
+   * Upload up to 10 chunks as the attachments of a single message
+   * Like putChunk, writes through the channel's webhook when it has one
+   * @returns The message ID and attachment position of each chunk
    */
-  private async uploadChunk(channelId: string, token: string, filePath: string, originalName: string): Promise<string> {
+  async putChunks(target: BackendTarget, chunks: ChunkUpload[]): Promise<ChunkLocation[]> {
+    if (chunks.length === 0 || chunks.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      throw new Error(`A message holds 1 to ${MAX_ATTACHMENTS_PER_MESSAGE} chunks, got ${chunks.length}`);
+    }
+    const filename = chunks.map(chunk => chunk.filename).join(', ');
+
     try {
-      // Read file data
-      const fileData = await readFileAsync(filePath);
-      
       // Create form data
       const formData = new FormData();
-      const blob = new Blob([fileData], { type: 'application/octet-stream' });
-      formData.append('file', blob, path.basename(filePath));
+      chunks.forEach((chunk, index) => {
+        formData.append(`files[${index}]`, new Blob([chunk.data], { type: chunk.mimetype }), chunk.filename);
+      });
       
-      // Upload to Discord
-      const response = await axios.post(
-        `https://discord.com/api/v10/channels/${channelId}/messages`,
-        formData,
-        {
-          headers: {
-            'Authorization': token.startsWith('Bot ') ? token : ` ${token}`,
-            'Content-Type': 'multipart/form-data',
-          },
+      // Upload to Discord; webhooks only return the message when asked to wait
+      const response = await discordClient.request(target.webhookUrl
+        ? {
+          method: 'POST',
+          path: this.getWebhookPath(target.webhookUrl),
+          params: { wait: 'true' },
+          data: formData,
         }
-      );
+        : {
+          method: 'POST',
+          path: `channels/${target.channelId}/messages`,
+          token: this.requireToken(target),
+          data: formData,
+        });
 
       if (response.status !== 200) {
-        throw new Error(`Failed to upload chunk ${path.basename(filePath)}`);
+        throw new Error(`Failed to upload chunk ${filename}`);
       }
 
-      return response.data.id;
+      // Attachments come back in the order they were sent
+      const message: DiscordMessage = response.data;
+      return chunks.map((chunk, index) => {
+        const attachmentIndex = message.attachments.findIndex(attachment => attachment.filename === chunk.filename);
+        return { chunkId: message.id, attachmentIndex: attachmentIndex >= 0 ? attachmentIndex : index };
+      });
     } catch (error) {
       if (axios.isAxiosError(error)) {
-        if (error.response?.status === 401) {
+        if (target.webhookUrl && (error.response?.status === 401 || error.response?.status === 404)) {
+          throw new Error('Webhook not found; it may have been deleted');
+        } else if (error.response?.status === 401) {
           throw new Error('Invalid Discord token');
         } else if (error.response?.status === 403) {
           throw new Error('Bot does not have permission to upload files to this channel');
@@ -161,84 +216,78 @@ export class DiscordService {
   }
 
   /**
-   * Upload a file to a Discord channel
-   * For files > 10MB, splits them into parts and uploads each part
+   * Find an untracked file's attachments by name, searching the channel's
+   * whole history
+   * The newest attachment of each name wins, as uploads of the same name
+   * replace earlier ones
+   * @param channelId Discord channel ID
+   * @param token Discord bot token
+   * @param filename Name of the file, or the base name of its name.partN parts
+   * @param isLarge Whether the file was split into name.partN parts
+   * @returns The file's attachments, in part order
+   * @throws Error if the file or one of its parts is not in the channel
    */
-  async uploadFile(channelId: string, token: string, file: Express.Multer.File): Promise<string> {
-    try {
-      // Check if file size is greater than 10MB
-      const isLargeFile = file.size > 10 * 1024 * 1024; // 10MB
-      
-      if (!isLargeFile) {
-        // Small file - upload directly
-        const formData = new FormData();
-        const blob = new Blob([file.buffer], { type: file.mimetype });
-        formData.append('file', blob, file.originalname);
-        
-        // Upload file to Discord
-        const response = await axios.post(
-          `https://discord.com/api/v10/channels/${channelId}/messages`,
-          formData,
-          {
-            headers: {
-              'Authorization': token.startsWith('Bot ') ? token : `${token}`,
-              'Content-Type': 'multipart/form-data',
-            },
+  async findFileAttachments(channelId: string, token: string, filename: string, isLarge: boolean): Promise<ChannelAttachment[]> {
+    const partPrefix = `${filename}.part`;
+    const parts = new Map<number, ChannelAttachment>();
+
+    let cursor: string | undefined;
+    do {
+      const page = await this.findFileMessages(channelId, token, { before: cursor });
+      for (const attachment of page.attachments) {
+        if (!isLarge) {
+          if (attachment.filename === filename) {
+            return [attachment];
           }
-        );
-
-        if (response.status !== 200) {
-          throw new Error('Failed to upload file to Discord');
+          continue;
         }
 
-        return response.data.id;
-      } else {
-        // Large file - split and upload in chunks
-        const tempDir = await this.createTempDir();
-        
-        // Write temporary file
-        const tempFilePath = path.join(tempDir, file.originalname);
-        await writeFileAsync(tempFilePath, file.buffer);
-        
-        // Split file into chunks
-        const chunkFiles = await this.splitFile(tempFilePath, tempDir);
-        
-        // Upload each chunk
-        const messageIds: string[] = [];
-        for (const chunkFile of chunkFiles) {
-          const messageId = await this.uploadChunk(channelId, token, chunkFile, file.originalname);
-          messageIds.push(messageId);
-          
-          // Add some delay between uploads to avoid rate limits
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-        
-        // Clean up temporary files
-        await unlinkAsync(tempFilePath);
-        for (const chunkFile of chunkFiles) {
-          if (fs.existsSync(chunkFile)) {
-            await unlinkAsync(chunkFile);
-          }
+        const suffix = attachment.filename.startsWith(partPrefix) ? attachment.filename.slice(partPrefix.length) : '';
+        const partNumber = /^\d+$/.test(suffix) ? parseInt(suffix, 10) : 0;
+        if (partNumber > 0 && !parts.has(partNumber)) {
+          parts.set(partNumber, attachment);
         }
-        
-        // Try to remove temporary directory
-        try {
-          fs.rmdirSync(tempDir);
-        } catch (error) {
-          console.warn('Could not remove temporary directory:', error);
-        }
-        
-        // Return the first message ID
-        return messageIds[0];
       }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    if (parts.size === 0) {
+      throw new Error(isLarge ? `No file parts found for "${filename}"` : `File "${filename}" not found in the channel`);
+    }
+    const found: ChannelAttachment[] = [];
+    for (let partNumber = 1; partNumber <= parts.size; partNumber++) {
+      const part = parts.get(partNumber);
+      if (!part) {
+        throw new Error(`Part ${partNumber} of "${filename}" is missing from the channel`);
+      }
+      found.push(part);
+    }
+    return found;
+  }
+
+  /**
+   * Fetch a single message by ID
+   * @param channelId Discord channel ID
+   * @param token Discord bot token
+   * @param messageId Discord message ID
+   * @returns The message with its attachments
+   */
+  async fetchMessage(channelId: string, token: string, messageId: string): Promise<DiscordMessage> {
+    try {
+      const response = await discordClient.request<DiscordMessage>({
+        method: 'GET',
+        path: `channels/${channelId}/messages/${messageId}`,
+        token,
+      });
+      return response.data;
     } catch (error) {
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 401) {
           throw new Error('Invalid Discord token');
         } else if (error.response?.status === 403) {
-          throw new Error('Bot does not have permission to upload files to this channel');
+          throw new ChunkUnavailableError('Bot does not have permission to access this channel');
         } else if (error.response?.status === 404) {
-          throw new Error('Channel not found');
+          throw new ChunkUnavailableError(`Message ${messageId} not found; it may have been deleted`);
         } else {
           throw new Error(`Discord API error: ${error.response?.data?.message || error.message}`);
         }
@@ -248,148 +297,152 @@ export class DiscordService {
   }
 
   /**
-   * Finds all file parts in a channel for a large file
-   * @param channelId Discord channel ID
-   * @param token Discord bot token
-   * @param filename Base filename to search for
-   * @returns Array of file parts with their URLs
+   * Fetch a message that a webhook posted; no bot token is needed
+   * @param webhookUrl Discord webhook URL
+   * @param messageId Discord message ID
+   * @returns The message with its attachments
    */
-  private async findFileParts(channelId: string, token: string, filename: string): Promise<MessageAttachment[]> {
-    // Get messages from the channel
-    const response = await axios.get(
-      `https://discord.com/api/v10/channels/${channelId}/messages?limit=100`,
-      {
-        headers: this.getDiscordApiHeaders(token),
+  async fetchWebhookMessage(webhookUrl: string, messageId: string): Promise<DiscordMessage> {
+    try {
+      const response = await discordClient.request<DiscordMessage>({
+        method: 'GET',
+        path: `${this.getWebhookPath(webhookUrl)}/messages/${messageId}`,
+      });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 401) {
+          throw new Error('Webhook not found; it may have been deleted');
+        } else if (error.response?.status === 404) {
+          throw new ChunkUnavailableError(`Message ${messageId} not found; it may have been deleted or not posted by this webhook`);
+        } else {
+          throw new Error(`Discord API error: ${error.response?.data?.message || error.message}`);
+        }
       }
-    );
-
-    if (response.status !== 200) {
-      throw new Error('Failed to fetch messages from Discord');
+      throw error;
     }
+  }
 
-    const messages: DiscordMessage[] = response.data;
-    const fileParts: MessageAttachment[] = [];
-
-    // Find all file parts that match the pattern filename.partX
-    for (const message of messages) {
-      for (const attachment of message.attachments) {
-        if (attachment.filename.startsWith(`${filename}.part`)) {
-          fileParts.push(attachment);
+  /**
+   * Download the chunk attached to a known message
+   * Uses the token when there is one, since it can read any message in the
+   * channel; otherwise reads through the channel's webhook
+   * @param target Discord channel, token and webhook
+   * @param messageId Discord message ID
+   * @param filename Name the chunk was stored under
+   * @param attachmentIndex Position of the chunk in the message; without it the chunk is looked up by name
+   * @returns Attachment contents
+   */
+  async getChunk(target: BackendTarget, messageId: string, filename?: string, attachmentIndex?: number): Promise<Buffer> {
+    // Signed URLs stay valid until their expiry, so the message only needs
+    // fetching again once the cached URL has expired
+    const cachedUrl = attachmentUrlCache.get(target.channelId, messageId, filename, attachmentIndex);
+    if (cachedUrl) {
+      try {
+        return await discordClient.fetchAttachment(cachedUrl);
+      } catch (error) {
+        if (!this.isExpiredUrlError(error)) {
+          throw error;
         }
+        attachmentUrlCache.deleteMessage(target.channelId, messageId);
       }
     }
 
-    if (fileParts.length === 0) {
-      throw new Error(`No file parts found for "${filename}"`);
-    }
+    const { attachment } = await this.findChunkAttachment(target, messageId, filename, attachmentIndex);
+    return discordClient.fetchAttachment(attachment.url);
+  }
 
-    // Sort parts by part number
-    fileParts.sort((a, b) => {
-      const partA = parseInt(a.filename.split('.part')[1], 10);
-      const partB = parseInt(b.filename.split('.part')[1], 10);
-      return partA - partB;
-    });
+  private isExpiredUrlError(error: unknown): boolean {
+    return axios.isAxiosError(error) && EXPIRED_URL_STATUSES.includes(error.response?.status ?? 0);
+  }
 
-    return fileParts;
+  /**
+   * Look up the attachment holding a chunk without downloading it
+   * Like getChunk, prefers the token and falls back to the webhook
+   * @param target Discord channel, token and webhook
+   * @param messageId Discord message ID
+   * @param filename Name the chunk was stored under
+   * @param attachmentIndex Position of the chunk in the message; without it the chunk is looked up by name
+   */
+  async statChunk(target: BackendTarget, messageId: string, filename?: string, attachmentIndex?: number): Promise<StoredChunk> {
+    const { message, attachment } = await this.findChunkAttachment(target, messageId, filename, attachmentIndex);
+    return {
+      id: messageId,
+      filename: attachment.filename,
+      size: attachment.size,
+      timestamp: message.timestamp,
+    };
   }
 
   /**
-   * Download a file from a Discord channel
-   * For large files, downloads and combines all parts
+   * Find the attachment holding a chunk
+   * A stored position is authoritative: messages can hold several chunks,
+   * and a name match must never pick a different one. The name is only
+   * checked against it, since Discord may rename attachments on upload
+   * @throws ChunkUnavailableError if the message has no such attachment, or
+   *   another attachment has the name the chunk was stored under
    */
-  async downloadFile(channelId: string, token: string, filename: string, isLarge: boolean): Promise<Buffer> {
-    try {
-      if (!isLarge) {
-        // Regular file download
-        // Retrieve the messages in the channel to find the file
-        const response = await axios.get(
-          `https://discord.com/api/v10/channels/${channelId}/messages?limit=100`,
-          {
-            headers: this.getDiscordApiHeaders(token),
-          }
+  private async findChunkAttachment(
+    target: BackendTarget,
+    messageId: string,
+    filename?: string,
+    attachmentIndex?: number
+  ): Promise<{ message: DiscordMessage; attachment: MessageAttachment }> {
+    const message = !target.token && target.webhookUrl
+      ? await this.fetchWebhookMessage(target.webhookUrl, messageId)
+      : await this.fetchMessage(target.channelId, this.requireToken(target), messageId);
+
+    let attachment: MessageAttachment | undefined;
+    if (attachmentIndex === undefined) {
+      attachment = message.attachments.find(candidate => candidate.filename === filename) ?? message.attachments[0];
+    } else {
+      attachment = message.attachments[attachmentIndex];
+      const namedIndex = filename === undefined
+        ? -1
+        : message.attachments.findIndex(candidate => candidate.filename === filename);
+      if (attachment && namedIndex !== -1 && namedIndex !== attachmentIndex) {
+        throw new ChunkUnavailableError(
+          `Attachment ${attachmentIndex} of message ${messageId} is not "${filename}"; the chunk's records do not match the message`
         );
+      }
+    }
 
-        if (response.status !== 200) {
-          throw new Error('Failed to fetch messages from Discord');
-        }
-
-        // Find the message with the requested file
-        const messages: DiscordMessage[] = response.data;
-        let fileUrl: string | null = null;
+    if (!attachment) {
+      throw new ChunkUnavailableError(`Message ${messageId} has no attachment for "${filename ?? 'chunk'}"`);
+    }
 
-        for (const message of messages) {
-          for (const attachment of message.attachments) {
-            if (attachment.filename === filename) {
-              fileUrl = attachment.url;
-              break;
-            }
-          }
-          if (fileUrl) break;
-        }
+    attachmentUrlCache.set(target.channelId, messageId, filename, attachmentIndex, attachment.url);
+    return { message, attachment };
+  }
 
-        if (!fileUrl) {
-          throw new Error(`File "${filename}" not found in the channel`);
+  /**
+   * Delete the message holding a chunk
+   * Like getChunk, prefers the token and falls back to the webhook
+   * @param target Discord channel, token and webhook
+   * @param messageId Discord message ID
+   */
+  async deleteChunk(target: BackendTarget, messageId: string): Promise<void> {
+    attachmentUrlCache.deleteMessage(target.channelId, messageId);
+    try {
+      await discordClient.request(!target.token && target.webhookUrl
+        ? {
+          method: 'DELETE',
+          path: `${this.getWebhookPath(target.webhookUrl)}/messages/${messageId}`,
         }
-
-        // Download the file
-        const fileResponse = await axios.get(fileUrl, {
-          responseType: 'arraybuffer',
+        : {
+          method: 'DELETE',
+          path: `channels/${target.channelId}/messages/${messageId}`,
+          token: this.requireToken(target),
         });
-
-        if (fileResponse.status !== 200) {
-          throw new Error('Failed to download file from Discord');
-        }
-
-        return Buffer.from(fileResponse.data);
-      } else {
-        // Large file download - need to find and combine parts
-        const tempDir = await this.createTempDir();
-        const outputPath = path.join(tempDir, filename);
-        const fileParts = await this.findFileParts(channelId, token, filename);
-        
-        // Download each part
-        const downloadedParts: string[] = [];
-        for (const part of fileParts) {
-          const partPath = path.join(tempDir, part.filename);
-          
-          // Download the part
-          const fileResponse = await axios.get(part.url, {
-            responseType: 'arraybuffer',
-          });
-          
-          if (fileResponse.status !== 200) {
-            throw new Error(`Failed to download part ${part.filename}`);
-          }
-          
-          // Save the part
-          await writeFileAsync(partPath, Buffer.from(fileResponse.data));
-          downloadedParts.push(partPath);
-        }
-        
-        // Merge the parts
-        const mergedFilePath = await this.mergeFiles(downloadedParts, outputPath);
-        
-        // Read the merged file
-        const fileData = await readFileAsync(mergedFilePath);
-        
-        // Clean up
-        await unlinkAsync(mergedFilePath);
-        try {
-          fs.rmdirSync(tempDir);
-        } catch (error) {
-          console.warn('Could not remove temporary directory:', error);
-        }
-        
-        return fileData;
-      }
     } catch (error) {
       if (axios.isAxiosError(error)) {
-        if (error.response?.status === 401) {
+        if (error.response?.status === 404) {
+          // Already gone
+          return;
+        } else if (error.response?.status === 401) {
           throw new Error('Invalid Discord token');
         } else if (error.response?.status === 403) {
-          throw new Error('Bot does not have permission to access this channel');
-        } else if (error.response?.status === 404) {
-          throw new Error('Channel not found');
+          throw new Error('Bot does not have permission to delete messages in this channel');
         } else {
           throw new Error(`Discord API error: ${error.response?.data?.message || error.message}`);
         }
@@ -399,31 +452,104 @@ export class DiscordService {
   }
 
   /**
-   * Find file messages in a Discord channel
+   * List chunks stored in a channel, one page of attachments at a time
+   * Webhooks cannot read channel history, so this always needs a token
+   * @param target Discord channel and token
+   * @param options Cursor and page size, as for findFileMessages
    */
-  async findFileMessages(channelId: string, token: string): Promise<MessageAttachment[]> {
+  async list(target: BackendTarget, options: ChunkListOptions = {}): Promise<ChunkPage> {
+    const page = await this.findFileMessages(target.channelId, this.requireToken(target), options);
+    return {
+      chunks: page.attachments.map(attachment => ({
+        id: attachment.message_id,
+        filename: attachment.filename,
+        size: attachment.size,
+        timestamp: attachment.timestamp,
+        attachmentIndex: attachment.attachment_index,
+      })),
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  /**
+   * Get the largest chunk a channel accepts, from its guild's boost tier
+   * Looking up the guild needs a token; webhook-only channels report no
+   * limit, as do lookups that fail, so callers fall back to their default
+   * @param target Discord channel and token
+   * @returns Size in bytes, or null if the limit is unknown
+   */
+  async getMaxChunkSize(target: BackendTarget): Promise<number | null> {
+    if (!target.token) {
+      return null;
+    }
+
+    const cached = this.uploadLimits.get(target.channelId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.limit;
+    }
+
+    let limit: number | null;
     try {
-      const response = await axios.get(
-        `https://discord.com/api/v10/channels/${channelId}/messages?limit=100`,
-        {
-          headers: this.getDiscordApiHeaders(token),
-        }
-      );
+      const premiumTier = await this.getPremiumTier(target.channelId, target.token);
+      const uploadLimit = UPLOAD_LIMIT_BY_PREMIUM_TIER[Math.min(premiumTier, UPLOAD_LIMIT_BY_PREMIUM_TIER.length - 1)];
+      limit = uploadLimit - UPLOAD_LIMIT_HEADROOM;
+    } catch (error) {
+      console.warn(`Could not look up the upload limit of channel ${target.channelId}:`, error);
+      return null;
+    }
 
-      if (response.status !== 200) {
-        throw new Error('Failed to fetch messages from Discord');
-      }
+    this.uploadLimits.set(target.channelId, { limit, expiresAt: Date.now() + UPLOAD_LIMIT_CACHE_MS });
+    return limit;
+  }
 
-      const messages: DiscordMessage[] = response.data;
-      const attachments: MessageAttachment[] = [];
+  /**
+   * Get the boost tier of the guild a channel belongs to
+   * @returns Tier 0-3; channels outside a guild count as tier 0
+   */
+  private async getPremiumTier(channelId: string, token: string): Promise<number> {
+    const channel = await discordClient.request<{ guild_id?: string }>({
+      method: 'GET',
+      path: `channels/${channelId}`,
+      token,
+    });
+    if (!channel.data.guild_id) {
+      return 0;
+    }
 
-      for (const message of messages) {
-        if (message.attachments.length > 0) {
-          attachments.push(...message.attachments);
-        }
+    const guild = await discordClient.request<{ premium_tier?: number }>({
+      method: 'GET',
+      path: `guilds/${channel.data.guild_id}`,
+      token,
+    });
+    return guild.data.premium_tier ?? 0;
+  }
+
+  /**
+   * Fetch one batch of channel history
+   * @param channelId Discord channel ID
+   * @param token Discord bot token
+   * @param query Cursor and batch size, as accepted by Discord
+   * @returns Messages, newest first
+   */
+  async fetchMessages(channelId: string, token: string, query: MessageQuery = {}): Promise<DiscordMessage[]> {
+    try {
+      const response = await discordClient.request<DiscordMessage[]>({
+        method: 'GET',
+        path: `channels/${channelId}/messages`,
+        token,
+        params: {
+          limit: query.limit ?? MESSAGES_PER_REQUEST,
+          before: query.before,
+          after: query.after,
+        },
+      });
+
+      if (response.status !== 200) {
+        throw new Error('Failed to fetch messages from Discord');
       }
 
-      return attachments;
+      // Discord does not promise an order for `after` queries, so normalise it
+      return response.data.sort((a, b) => compareSnowflakes(b.id, a.id));
     } catch (error) {
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 401) {
@@ -439,6 +565,68 @@ export class DiscordService {
       throw error;
     }
   }
+
+  /**
+   * Walk a channel's entire history, newest message first
+   * @param channelId Discord channel ID
+   * @param token Discord bot token
+   * @param before Only yield messages older than this message ID
+   */
+  async *iterateMessages(channelId: string, token: string, before?: string): AsyncGenerator<DiscordMessage> {
+    let cursor = before;
+
+    for (;;) {
+      const batch = await this.fetchMessages(channelId, token, { before: cursor });
+      for (const message of batch) {
+        yield message;
+      }
+
+      if (batch.length < MESSAGES_PER_REQUEST) {
+        return;
+      }
+      cursor = batch[batch.length - 1].id;
+    }
+  }
+
+  /**
+   * Find file messages in a Discord channel, one page at a time
+   * Pages walk backwards from `before` (or the newest message) by default,
+   * or forwards from `after`; pass the returned cursor back in the same
+   * parameter to get the next page
+   * @param channelId Discord channel ID
+   * @param token Discord bot token
+   * @param options Cursor and the number of attachments wanted per page
+   * @returns Attachments found and the cursor for the next page, if any
+   */
+  async findFileMessages(channelId: string, token: string, options: ChunkListOptions = {}): Promise<AttachmentPage> {
+    const pageSize = options.pageSize ?? DEFAULT_ATTACHMENT_PAGE_SIZE;
+    const forward = options.after !== undefined && options.before === undefined;
+    let cursor = forward ? options.after : options.before;
+    const attachments: ChannelAttachment[] = [];
+
+    // Keep scanning until the page is full, but bound the work per request
+    // so channels with few attachments still answer promptly
+    for (let batchCount = 0; batchCount < MAX_BATCHES_PER_PAGE; batchCount++) {
+      const batch = await this.fetchMessages(channelId, token, forward ? { after: cursor } : { before: cursor });
+      const ordered = forward ? batch.slice().reverse() : batch;
+
+      for (const message of ordered) {
+        cursor = message.id;
+        message.attachments.forEach((attachment, index) => {
+          attachments.push({ ...attachment, message_id: message.id, timestamp: message.timestamp, attachment_index: index });
+        });
+      }
+
+      if (batch.length < MESSAGES_PER_REQUEST) {
+        return { attachments, nextCursor: null };
+      }
+      if (attachments.length >= pageSize) {
+        break;
+      }
+    }
+
+    return { attachments, nextCursor: cursor ?? null };
+  }
 }
 
 export const discordService = new DiscordService();
@@ -0,0 +1,513 @@
+import crypto from 'crypto';
+import { Readable, pipeline } from 'stream';
+import { storage } from '../storage';
+import { chunkCache } from './chunk-cache';
+import { compressionService } from './compression-service';
+import { discordService, type ChannelAttachment } from './discord-service';
+import { getChannelBackend } from './backend-registry';
+import { getPartSlices, type ByteRange, type PartSlice } from './byte-range';
+import { ReedSolomon } from './reed-solomon';
+import { ChunkUnavailableError, type TransferOptions } from './storage-backend';
+import { type Channel, type CompressionCodec, type File, type FilePart } from '@shared/schema';
+
+// Times a chunk is fetched again after its checksum did not match
+const CHECKSUM_RETRIES = 1;
+
+/**
+ * Thrown when a chunk keeps coming back with a different SHA-256 than it
+ * was stored with. Corrupted chunks are treated like missing ones, so
+ * readers fall back to another copy or to parity
+ */
+export class ChunkChecksumError extends ChunkUnavailableError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChunkChecksumError';
+  }
+}
+
+// One stored copy of a part: the primary in file_parts, or a replica
+export interface PartCopy {
+  channel: Channel;
+  chunkId: string;
+  attachmentIndex: number; // Position of the part under its chunk ID
+  name: string; // Name the chunk was stored under
+  replicaId: number | null; // null for the primary copy
+}
+
+/**
+ * Service for downloading tracked files
+ * Files are fetched through the chunk IDs stored at upload time, so they
+ * stay downloadable no matter how many messages have been posted since
+ */
+export class DownloadService {
+  /**
+   * Download a tracked file into memory
+   * @param file File record to download
+   * @param channel Channel the file belongs to
+   * @param token Discord token; channels with a webhook can do without
+   * @param options Transfer options such as chunk concurrency
+   * @returns File contents
+   */
+  async downloadFile(file: File, channel: Channel, token: string | undefined, options: TransferOptions = {}): Promise<Buffer> {
+    const buffers: Buffer[] = [];
+    for await (const data of this.streamFile(file, channel, token, options)) {
+      buffers.push(data);
+    }
+    return Buffer.concat(buffers);
+  }
+
+  /**
+   * Stream a tracked file, or a byte range of it, part by part
+   * Compressed files are decompressed on the way. Whole-file reads are
+   * checked against the file's SHA-256 once the last part is through, and
+   * throw if it does not match
+   * @param file File record to download
+   * @param channel Channel the file belongs to
+   * @param token Discord token; channels with a webhook can do without
+   * @param options Transfer options such as chunk concurrency
+   * @param range Bytes of the uncompressed file to read; the whole file if left out
+   */
+  async *streamFile(
+    file: File,
+    channel: Channel,
+    token: string | undefined,
+    options: TransferOptions = {},
+    range?: ByteRange
+  ): AsyncGenerator<Buffer> {
+    const chunks = file.compression
+      ? this.decompress(file.compression, this.streamStoredBytes(file, channel, token, options), range)
+      : this.streamStoredBytes(file, channel, token, options, range);
+
+    const fileHash = !range && file.sha256 ? crypto.createHash('sha256') : null;
+    for await (const data of chunks) {
+      fileHash?.update(data);
+      yield data;
+    }
+
+    if (fileHash && fileHash.digest('hex') !== file.sha256) {
+      throw new Error(`File "${file.original_filename}" does not match its SHA-256 checksum`);
+    }
+  }
+
+  /**
+   * Stream the bytes stored for a file, or a range of them, part by part
+   * Only the parts overlapping the range are read. Parts striped across a
+   * channel group are read ahead from the channel each one was stored in,
+   * with up to `concurrency` reads in flight per channel, and yielded in
+   * order. A part whose chunk is gone is read from one of its replicas
+   * instead, or rebuilt from the rest of its stripe if the file has parity
+   * chunks
+   */
+  private async *streamStoredBytes(
+    file: File,
+    channel: Channel,
+    token: string | undefined,
+    options: TransferOptions,
+    range?: ByteRange
+  ): AsyncGenerator<Buffer> {
+    const parts = await this.getCompleteParts(file);
+    if (parts.length === 0) {
+      // Older uploads without part records
+      yield* this.streamUnrecordedFile(file, channel, token, options, range);
+      return;
+    }
+
+    const copies = await this.getPartCopies(file, channel, parts);
+    const channelCount = new Set(parts.map(part => part.channel_id ?? channel.id)).size;
+    yield* this.readSlices(
+      getPartSlices(parts.map(part => part.size_bytes), range),
+      (options.concurrency ?? 1) * channelCount,
+      index => this.readFilePart(file, parts, copies, index, token)
+    );
+  }
+
+  /**
+   * Stream attachments found in a Discord channel's history as one file,
+   * or a byte range of it, with up to `concurrency` reads in flight
+   * @param channelId Discord channel ID
+   * @param token Discord bot token
+   * @param attachments Attachments making up the file, in part order
+   * @param options Transfer options such as chunk concurrency
+   * @param range Bytes of the file to read; the whole file if left out
+   */
+  async *streamAttachments(
+    channelId: string,
+    token: string,
+    attachments: ChannelAttachment[],
+    options: TransferOptions = {},
+    range?: ByteRange
+  ): AsyncGenerator<Buffer> {
+    yield* this.readSlices(
+      getPartSlices(attachments.map(attachment => attachment.size), range),
+      options.concurrency ?? 1,
+      index => discordService.getChunk(
+        { channelId, token },
+        attachments[index].message_id,
+        attachments[index].filename,
+        attachments[index].attachment_index
+      )
+    );
+  }
+
+  /**
+   * Read parts ahead of the consumer and yield the wanted bytes of each in order
+   * @param slices Parts to read, and which of their bytes to yield
+   * @param readAhead Most reads in flight at once
+   * @param read Reads the part at an index
+   */
+  private async *readSlices(slices: PartSlice[], readAhead: number, read: (index: number) => Promise<Buffer>): AsyncGenerator<Buffer> {
+    const reads: Promise<Buffer>[] = [];
+    let next = 0;
+    for (const { from, to } of slices) {
+      while (next < slices.length && reads.length < readAhead) {
+        const pending = read(slices[next++].index);
+        // Reads left behind when the consumer stops early must not be unhandled
+        pending.catch(() => undefined);
+        reads.push(pending);
+      }
+
+      const data = await reads.shift()!;
+      yield from === 0 && to === data.length ? data : data.subarray(from, to);
+    }
+  }
+
+  /**
+   * Decompress a file's stored bytes, keeping only a range of the result
+   * Offsets into the compressed bytes say nothing about the file's, so
+   * everything before the range is decompressed and dropped
+   */
+  private async *decompress(codec: CompressionCodec, stored: AsyncGenerator<Buffer>, range?: ByteRange): AsyncGenerator<Buffer> {
+    // Failures surface while the decompressed stream is read
+    const decompressed = pipeline(Readable.from(stored), compressionService.createDecompressor(codec), () => undefined);
+
+    let offset = 0;
+    for await (const data of decompressed as AsyncIterable<Buffer>) {
+      const start = offset;
+      offset += data.length;
+      if (!range) {
+        yield data;
+        continue;
+      }
+
+      const from = Math.max(range.start, start);
+      const to = Math.min(range.end + 1, offset);
+      if (from < to) {
+        yield data.subarray(from - start, to - start);
+      }
+      if (offset > range.end) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Get the completed parts of a file in part order
+   * @returns The parts, or none if the file predates part records
+   * @throws Error if some parts never finished uploading
+   */
+  private async getCompleteParts(file: File): Promise<FilePart[]> {
+    const parts = (await storage.getFileParts(file.id))
+      .filter(part => part.upload_complete && part.discord_message_id);
+    if (parts.length === 0) {
+      return parts;
+    }
+
+    const expectedParts = file.type === 'large_chunked' ? Math.max(...parts.map(part => part.part_number)) : 1;
+    if (parts.length !== expectedParts || parts.some((part, index) => part.part_number !== index + 1)) {
+      throw new Error(`File "${file.original_filename}" is missing parts; the upload may not have completed`);
+    }
+    return parts;
+  }
+
+  /**
+   * Read one part of a file from the chunk cache, or else from its copies,
+   * falling back to its stripe's parity; parts read from storage are cached
+   * @param index Index of the part in `parts`
+   */
+  private async readFilePart(
+    file: File,
+    parts: FilePart[],
+    copies: Map<number, PartCopy[]>,
+    index: number,
+    token: string | undefined
+  ): Promise<Buffer> {
+    const part = parts[index];
+    const cached = await chunkCache.get(file.id, part.part_number, part.sha256);
+    if (cached) {
+      return cached;
+    }
+
+    const data = await this.readUncachedPart(file, parts, copies, index, token);
+    await chunkCache.set(file.id, part.part_number, part.sha256, data);
+    return data;
+  }
+
+  private async readUncachedPart(
+    file: File,
+    parts: FilePart[],
+    copies: Map<number, PartCopy[]>,
+    index: number,
+    token: string | undefined
+  ): Promise<Buffer> {
+    const part = parts[index];
+    try {
+      return await this.readPart(copies.get(part.id)!, token, this.getPartName(file, part), part.sha256);
+    } catch (error) {
+      if (file.type !== 'large_chunked' || file.parity_shards === 0 || !(error instanceof ChunkUnavailableError)) {
+        throw error;
+      }
+    }
+
+    // Read the rest of the stripe and rebuild the part from it
+    const buffers: (Buffer | null)[] = new Array(parts.length).fill(null);
+    const lostParts = [index];
+    const first = Math.floor(index / file.data_shards) * file.data_shards;
+    for (let stripeIndex = first; stripeIndex < Math.min(first + file.data_shards, parts.length); stripeIndex++) {
+      if (stripeIndex === index) {
+        continue;
+      }
+      const stripePart = parts[stripeIndex];
+      try {
+        buffers[stripeIndex] = await this.readPart(copies.get(stripePart.id)!, token, this.getPartName(file, stripePart), stripePart.sha256);
+      } catch (error) {
+        if (!(error instanceof ChunkUnavailableError)) {
+          throw error;
+        }
+        lostParts.push(stripeIndex);
+      }
+    }
+
+    await this.rebuildParts(file, parts, buffers, lostParts, token);
+    return buffers[index]!;
+  }
+
+  /**
+   * Stream a file uploaded before its parts were recorded
+   */
+  private async *streamUnrecordedFile(
+    file: File,
+    channel: Channel,
+    token: string | undefined,
+    options: TransferOptions,
+    range?: ByteRange
+  ): AsyncGenerator<Buffer> {
+    if (file.type === 'normal' && file.discord_message_id) {
+      // The chunk is still known
+      const { backend, target } = getChannelBackend(channel, token);
+      const data = await backend.getChunk(target, file.discord_message_id, file.original_filename);
+      yield range ? data.subarray(range.start, range.end + 1) : data;
+      return;
+    }
+
+    if (channel.backend !== 'discord' || !token) {
+      throw new Error(`File "${file.original_filename}" has no stored parts`);
+    }
+
+    // Older chunked uploads only know their first message; search by name instead
+    const attachments = await discordService.findFileAttachments(
+      channel.discord_channel_id,
+      token,
+      file.original_filename,
+      file.type === 'large_chunked'
+    );
+    yield* this.streamAttachments(channel.discord_channel_id, token, attachments, options, range);
+  }
+
+  private getPartName(file: File, part: FilePart): string {
+    const storedName = compressionService.getStoredName(file);
+    return file.type === 'large_chunked' ? `${storedName}.part${part.part_number}` : storedName;
+  }
+
+  /**
+   * Rebuild lost parts of a file from the rest of their stripes
+   * Parity chunks of a stripe are read until, together with the parts that
+   * are left, there are enough chunks to rebuild it
+   * @param file File record with parity chunks
+   * @param parts Completed parts of the file, in part order
+   * @param buffers Contents of each part; lost parts are filled in
+   * @param lostParts Indexes of the parts that could not be read
+   * @param token Discord token; channels with a webhook can do without
+   */
+  private async rebuildParts(
+    file: File,
+    parts: FilePart[],
+    buffers: (Buffer | null)[],
+    lostParts: number[],
+    token: string | undefined
+  ): Promise<void> {
+    const dataShards = file.data_shards;
+    const codec = new ReedSolomon(dataShards, file.parity_shards);
+    const parityParts = (await storage.getFileParityParts(file.id))
+      .filter(parityPart => parityPart.upload_complete && parityPart.discord_message_id);
+    const stripeNumbers = lostParts
+      .map(index => Math.floor(index / dataShards) + 1)
+      .filter((stripeNumber, index, all) => all.indexOf(stripeNumber) === index);
+
+    for (const stripeNumber of stripeNumbers) {
+      const first = (stripeNumber - 1) * dataShards;
+
+      // Parts past the end of the file count as all zeros
+      const shards: (Buffer | null)[] = [];
+      for (let index = first; index < first + dataShards; index++) {
+        shards.push(index < parts.length ? buffers[index] : Buffer.alloc(0));
+      }
+      for (let shardIndex = 0; shardIndex < file.parity_shards; shardIndex++) {
+        shards.push(null);
+      }
+
+      let available = shards.filter(shard => shard !== null).length;
+      let shardSize = 0;
+      for (const parityPart of parityParts) {
+        if (parityPart.stripe_number !== stripeNumber || available >= dataShards) {
+          continue;
+        }
+
+        const parityChannel = await storage.getChannel(parityPart.channel_id);
+        if (!parityChannel) {
+          continue;
+        }
+        const parityName = `${compressionService.getStoredName(file)}.stripe${stripeNumber}.parity${parityPart.shard_index + 1}`;
+        try {
+          shards[dataShards + parityPart.shard_index] = await this.getVerifiedChunk(
+            parityChannel,
+            parityPart.discord_message_id!,
+            token,
+            parityName,
+            parityPart.sha256
+          );
+        } catch (error) {
+          if (!(error instanceof ChunkUnavailableError)) {
+            throw error;
+          }
+          continue;
+        }
+        shardSize = parityPart.size_bytes;
+        available++;
+      }
+
+      if (available < dataShards) {
+        throw new ChunkUnavailableError(
+          `Stripe ${stripeNumber} of "${file.original_filename}" has lost too many chunks to be rebuilt`
+        );
+      }
+
+      const rebuilt = codec.reconstruct(shards, shardSize);
+      for (let index = first; index < Math.min(first + dataShards, parts.length); index++) {
+        if (!buffers[index]) {
+          buffers[index] = rebuilt[index - first].subarray(0, parts[index].size_bytes);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get every stored copy of each part of a file, primary first
+   * @param file File record
+   * @param channel Channel the file belongs to
+   * @param parts Completed parts of the file
+   * @returns Copies keyed by part ID
+   */
+  async getPartCopies(file: File, channel: Channel, parts: FilePart[]): Promise<Map<number, PartCopy[]>> {
+    const replicas = await storage.getFilePartReplicas(file.id);
+
+    // Resolve the channel of every copy up front
+    const channels = new Map<number, Channel | undefined>([[channel.id, channel]]);
+    const channelIds = [
+      ...parts.map(part => part.channel_id ?? channel.id),
+      ...replicas.map(replica => replica.channel_id),
+    ];
+    for (const channelId of channelIds) {
+      if (!channels.has(channelId)) {
+        channels.set(channelId, await storage.getChannel(channelId));
+      }
+    }
+
+    const copies = new Map<number, PartCopy[]>();
+    for (const part of parts) {
+      const primaryChannel = channels.get(part.channel_id ?? channel.id);
+      // A deduplicated part is stored under the name of the file that stored it first
+      const sharedChunk = part.shared_chunk_id ? await storage.getSharedChunk(part.shared_chunk_id) : undefined;
+      copies.set(part.id, primaryChannel && part.discord_message_id
+        ? [{
+          channel: primaryChannel,
+          chunkId: part.discord_message_id,
+          attachmentIndex: part.attachment_index,
+          name: sharedChunk?.filename ?? this.getPartName(file, part),
+          replicaId: null,
+        }]
+        : []);
+    }
+    for (const replica of replicas) {
+      const replicaChannel = channels.get(replica.channel_id);
+      const part = parts.find(candidate => candidate.id === replica.part_id);
+      if (replicaChannel && part) {
+        copies.get(part.id)!.push({
+          channel: replicaChannel,
+          chunkId: replica.chunk_id,
+          attachmentIndex: 0,
+          name: this.getPartName(file, part),
+          replicaId: replica.id,
+        });
+      }
+    }
+
+    for (const part of parts) {
+      if (copies.get(part.id)!.length === 0) {
+        throw new Error(`Channel holding part ${part.part_number} of "${file.original_filename}" no longer exists`);
+      }
+    }
+    return copies;
+  }
+
+  /**
+   * Read a part from the first of its copies that is still available
+   * Only a missing or corrupted chunk moves on to the next copy; any other
+   * failure is thrown straight away
+   * @param copies Copies of the part, in the order to try them
+   * @param token Discord token; channels with a webhook can do without
+   * @param partName Name of the part, for errors
+   * @param sha256 Expected SHA-256 of the part, if it is known
+   * @returns Part contents
+   */
+  async readPart(copies: PartCopy[], token: string | undefined, partName: string, sha256: string | null = null): Promise<Buffer> {
+    let lastError: unknown = new ChunkUnavailableError(`No copies of "${partName}" are stored`);
+    for (const copy of copies) {
+      try {
+        return await this.getVerifiedChunk(copy.channel, copy.chunkId, token, copy.name, sha256, copy.attachmentIndex);
+      } catch (error) {
+        if (!(error instanceof ChunkUnavailableError)) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Fetch a chunk and check it against its SHA-256, fetching it again if it
+   * comes back different
+   * @throws ChunkChecksumError if the chunk never matches
+   */
+  private async getVerifiedChunk(
+    channel: Channel,
+    chunkId: string,
+    token: string | undefined,
+    name: string,
+    sha256: string | null,
+    attachmentIndex: number = 0
+  ): Promise<Buffer> {
+    const { backend, target } = getChannelBackend(channel, token);
+    for (let attempt = 0; ; attempt++) {
+      const data = await backend.getChunk(target, chunkId, name, attachmentIndex);
+      if (!sha256 || crypto.createHash('sha256').update(data).digest('hex') === sha256) {
+        return data;
+      }
+      if (attempt >= CHECKSUM_RETRIES) {
+        throw new ChunkChecksumError(`"${name}" in channel ${channel.name} does not match its SHA-256 checksum`);
+      }
+    }
+  }
+}
+
+export const downloadService = new DownloadService();
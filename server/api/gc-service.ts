@@ -0,0 +1,269 @@
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { getChannelBackend } from './backend-registry';
+import { deletionService, type ChunkRef, type DeletionResult } from './deletion-service';
+import { PARITY_NAME_PATTERN, PART_NAME_PATTERN } from './import-service';
+import { manifestService } from './manifest-service';
+import { type Channel } from '@shared/schema';
+
+// Chunks requested per page while walking a channel's history
+const SCAN_PAGE_SIZE = 100;
+
+// An upload that never finished, with the chunks it had already stored
+export interface StaleUpload {
+  file_id: number;
+  filename: string;
+  channel_id: number;
+  created_at: string | null;
+  chunks: number;
+}
+
+// A message of chunks no record refers to; a message can hold several attachments
+export interface OrphanedChunk {
+  channel_id: number;
+  discord_channel_id: string;
+  chunk_id: string;
+  filenames: string[];
+  size: number;
+  timestamp: string | null;
+}
+
+export interface GcReport {
+  id: string; // Needed to approve the report
+  status: 'scanning' | 'ready' | 'applying' | 'applied' | 'failed';
+  stale_after_hours: number;
+  started_at: string;
+  finished_at: string | null; // When the scan finished
+  error: string | null;
+  stale_uploads: StaleUpload[];
+  orphans: OrphanedChunk[];
+  skipped_channels: { channel_id: number; name: string | null; reason: string }[];
+  // Filled in once the report is approved and applied
+  result: (DeletionResult & { files_deleted: number; skipped: number }) | null;
+}
+
+export interface GcScanOptions {
+  token?: string; // Needed to list Discord channels
+  staleAfterHours: number; // Incomplete uploads and unreferenced chunks younger than this are left alone
+}
+
+// What an admin approved from a report; everything in it by default
+export interface GcApproval {
+  token?: string;
+  fileIds?: number[];
+  chunkIds?: string[];
+}
+
+/**
+ * Service for garbage collecting what failed uploads leave behind
+ * A scan only reports: uploads that never finished, and chunks in the
+ * channels that no record refers to. Only messages whose attachments all
+ * carry the part, parity or manifest names uploads give them count as
+ * chunks, so anything else posted to a channel is never deleted. Nothing
+ * is deleted until an admin
+ * approves the report, and everything is checked again before it is
+ * deleted, as records may have changed since the scan
+ */
+export class GcService {
+  private report: GcReport | null = null;
+
+  /**
+   * Get the latest report, and whether a scan or cleanup is running
+   */
+  getStatus(): { running: boolean; report: GcReport | null } {
+    return {
+      running: this.isRunning(),
+      report: this.report,
+    };
+  }
+
+  /**
+   * Scan for stale uploads and unreferenced chunks
+   * @param options Credentials and how old things must be to count as stale
+   * @returns The report, ready to be approved
+   */
+  async scan(options: GcScanOptions): Promise<GcReport> {
+    if (this.isRunning()) {
+      throw new Error('Garbage collection is already running');
+    }
+
+    const report: GcReport = {
+      id: crypto.randomUUID(),
+      status: 'scanning',
+      stale_after_hours: options.staleAfterHours,
+      started_at: new Date().toISOString(),
+      finished_at: null,
+      error: null,
+      stale_uploads: [],
+      orphans: [],
+      skipped_channels: [],
+      result: null,
+    };
+    this.report = report;
+
+    const cutoff = new Date(Date.now() - options.staleAfterHours * 60 * 60 * 1000);
+    try {
+      for (const file of await storage.listIncompleteFiles(cutoff)) {
+        report.stale_uploads.push({
+          file_id: file.id,
+          filename: file.original_filename,
+          channel_id: file.channel_id,
+          created_at: file.created_at ? new Date(file.created_at).toISOString() : null,
+          chunks: (await deletionService.getFileChunks(file)).length,
+        });
+      }
+
+      for (const channel of await storage.getAllChannels()) {
+        try {
+          report.orphans.push(...await this.findOrphans(channel, options.token, cutoff));
+        } catch (error) {
+          report.skipped_channels.push({
+            channel_id: channel.id,
+            name: channel.name,
+            reason: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      report.status = 'ready';
+    } catch (error) {
+      report.status = 'failed';
+      report.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      report.finished_at = new Date().toISOString();
+    }
+
+    return report;
+  }
+
+  /**
+   * Check whether a report can be approved
+   * @returns Why it cannot, or null if it can
+   */
+  getApprovalError(reportId: string): string | null {
+    if (!this.report || this.report.id !== reportId) {
+      return 'Report not found; it may have been replaced by a newer scan';
+    }
+    if (this.report.status !== 'ready') {
+      return `Report is ${this.report.status}, not ready to be approved`;
+    }
+    return null;
+  }
+
+  /**
+   * Delete what an approved report found
+   * Uploads that have finished since, and chunks a record now refers to,
+   * are skipped
+   * @param reportId ID of the report being approved
+   * @param approval Credentials, and the parts of the report approved
+   * @returns The report with its result
+   */
+  async apply(reportId: string, approval: GcApproval): Promise<GcReport> {
+    const approvalError = this.getApprovalError(reportId);
+    if (approvalError) {
+      throw new Error(approvalError);
+    }
+
+    const report = this.report!;
+    report.status = 'applying';
+    const result = { files_deleted: 0, skipped: 0, chunks_deleted: 0, chunks_pending: 0, chunks_shared: 0 };
+    const add = (deleted: DeletionResult) => {
+      result.chunks_deleted += deleted.chunks_deleted;
+      result.chunks_pending += deleted.chunks_pending;
+      result.chunks_shared += deleted.chunks_shared;
+    };
+
+    try {
+      const staleUploads = report.stale_uploads
+        .filter(upload => !approval.fileIds || approval.fileIds.includes(upload.file_id));
+      for (const upload of staleUploads) {
+        const file = await storage.getFile(upload.file_id);
+        if (!file || file.upload_complete) {
+          result.skipped++;
+          continue;
+        }
+        add(await deletionService.deleteFile(file, approval.token));
+        result.files_deleted++;
+      }
+
+      const orphans = report.orphans
+        .filter(orphan => !approval.chunkIds || approval.chunkIds.includes(orphan.chunk_id));
+      const channelIds = Array.from(new Set(orphans.map(orphan => orphan.channel_id)));
+      for (const channelId of channelIds) {
+        const referenced = await storage.getReferencedChunkIds(channelId);
+        const chunks: ChunkRef[] = [];
+        for (const orphan of orphans.filter(candidate => candidate.channel_id === channelId)) {
+          if (referenced.has(orphan.chunk_id)) {
+            result.skipped++;
+          } else {
+            chunks.push({ channelId, chunkId: orphan.chunk_id });
+          }
+        }
+        add(await deletionService.deleteChunks(chunks, approval.token, { fileId: null, filename: null }));
+      }
+
+      report.status = 'applied';
+    } catch (error) {
+      report.status = 'failed';
+      report.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      report.result = result;
+    }
+
+    return report;
+  }
+
+  /**
+   * List the messages of chunks in a channel that no record refers to
+   * @param cutoff Messages posted after this are skipped, as an upload in
+   *               progress stores chunks a moment before recording them
+   */
+  private async findOrphans(channel: Channel, token: string | undefined, cutoff: Date): Promise<OrphanedChunk[]> {
+    const { backend, target } = getChannelBackend(channel, token);
+    const referenced = await storage.getReferencedChunkIds(channel.id);
+    const orphans = new Map<string, OrphanedChunk>();
+
+    let cursor: string | undefined;
+    do {
+      const page = await backend.list(target, { before: cursor, pageSize: SCAN_PAGE_SIZE });
+      for (const chunk of page.chunks) {
+        if (referenced.has(chunk.id) || (chunk.timestamp && new Date(chunk.timestamp) > cutoff)) {
+          continue;
+        }
+        const orphan = orphans.get(chunk.id);
+        if (orphan) {
+          orphan.filenames.push(chunk.filename);
+          orphan.size += chunk.size;
+        } else {
+          orphans.set(chunk.id, {
+            channel_id: channel.id,
+            discord_channel_id: channel.discord_channel_id,
+            chunk_id: chunk.id,
+            filenames: [chunk.filename],
+            size: chunk.size,
+            timestamp: chunk.timestamp ?? null,
+          });
+        }
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    return Array.from(orphans.values()).filter(orphan => orphan.filenames.every(filename => this.isChunkName(filename)));
+  }
+
+  // Single-part files keep their own name, so only their records can tell
+  // them from anything else posted to the channel
+  private isChunkName(filename: string): boolean {
+    return PART_NAME_PATTERN.test(filename)
+      || PARITY_NAME_PATTERN.test(filename)
+      || manifestService.isManifestName(filename);
+  }
+
+  private isRunning(): boolean {
+    return this.report?.status === 'scanning' || this.report?.status === 'applying';
+  }
+}
+
+export const gcService = new GcService();
@@ -0,0 +1,208 @@
+import { storage } from '../storage';
+import { getChannelBackend } from './backend-registry';
+import { manifestService } from './manifest-service';
+import { profileService } from './profile-service';
+import { ChunkUnavailableError, type StoredChunk } from './storage-backend';
+import { type Channel, type File } from '@shared/schema';
+
+// Names chunks of large files are stored under, and those of their parity chunks
+export const PART_NAME_PATTERN = /^(.+)\.part(\d+)$/;
+export const PARITY_NAME_PATTERN = /\.stripe\d+\.parity\d+$/;
+
+// Type recorded for imported files; the channel does not say what they hold
+const IMPORTED_MIME_TYPE = 'application/octet-stream';
+
+// An attachment picked from /api/list-files
+export interface ImportSelection {
+  id: string; // Chunk ID
+  filename: string;
+  attachment_index?: number;
+}
+
+// Chunks that together make up one file
+export interface ChunkGroup {
+  filename: string;
+  isLarge: boolean; // Stored as name.partN chunks
+  chunks: StoredChunk[]; // In part order
+}
+
+export interface SkippedChunk {
+  filename: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  files: File[];
+  skipped: SkippedChunk[];
+}
+
+/**
+ * Service for adopting chunks that are in a channel but not in the database,
+ * such as files posted by other tools or by hand
+ * Adopted files get the same records as uploaded ones, so they can be
+ * shared, encrypted and downloaded like any other file
+ */
+export class ImportService {
+  /**
+   * Sort chunks into files: name.partN chunks of the same name form one
+   * large file, anything else is a file of its own
+   * A large file is only formed if it has exactly one chunk for each of
+   * parts 1 to N; other part sets are returned as skipped
+   * @param chunks Chunks to sort; parity chunks and manifests are not expected
+   */
+  groupChunks(chunks: StoredChunk[]): { groups: ChunkGroup[]; skipped: SkippedChunk[] } {
+    const groups: ChunkGroup[] = [];
+    const skipped: SkippedChunk[] = [];
+
+    const partSets = new Map<string, { partNumber: number; chunk: StoredChunk }[]>();
+    for (const chunk of chunks) {
+      const match = PART_NAME_PATTERN.exec(chunk.filename);
+      if (!match) {
+        groups.push({ filename: chunk.filename, isLarge: false, chunks: [chunk] });
+        continue;
+      }
+      const partSet = partSets.get(match[1]) ?? [];
+      partSet.push({ partNumber: parseInt(match[2], 10), chunk });
+      partSets.set(match[1], partSet);
+    }
+
+    Array.from(partSets.keys()).sort().forEach(filename => {
+      const partSet = partSets.get(filename)!.sort((a, b) => a.partNumber - b.partNumber);
+
+      if (partSet.some((entry, index) => index > 0 && entry.partNumber === partSet[index - 1].partNumber)) {
+        skipped.push({ filename, reason: 'has more than one chunk for the same part; it may have been uploaded twice' });
+        return;
+      }
+      if (partSet.some((entry, index) => entry.partNumber !== index + 1)) {
+        skipped.push({ filename, reason: `is missing parts; found parts ${partSet.map(entry => entry.partNumber).join(', ')}` });
+        return;
+      }
+      groups.push({ filename, isLarge: true, chunks: partSet.map(entry => entry.chunk) });
+    });
+
+    return { groups, skipped };
+  }
+
+  /**
+   * Create the file and part records for a group of chunks
+   * The file's checksum is unknown, as its chunks are not read
+   * @param channel Channel the chunks are stored in
+   * @param group Chunks of the file
+   * @returns The new file record
+   */
+  async createFileRecord(channel: Channel, group: ChunkGroup): Promise<File> {
+    const first = group.chunks[0];
+    const file = await storage.createFile({
+      filename: group.filename,
+      original_filename: group.filename,
+      size_bytes: group.chunks.reduce((total, chunk) => total + chunk.size, 0),
+      type: group.isLarge ? 'large_chunked' : 'normal',
+      channel_id: channel.id,
+      discord_message_id: first.id,
+      upload_complete: true,
+      is_public: false,
+      mime_type: IMPORTED_MIME_TYPE,
+      chunk_size: Math.max(first.size, 1),
+    });
+    if (first.timestamp) {
+      await storage.updateFile(file.id, { created_at: new Date(first.timestamp) });
+    }
+
+    for (let index = 0; index < group.chunks.length; index++) {
+      const chunk = group.chunks[index];
+      await storage.createFilePart({
+        file_id: file.id,
+        part_number: index + 1,
+        size_bytes: chunk.size,
+        discord_message_id: chunk.id,
+        upload_complete: true,
+        channel_id: channel.id,
+        attachment_index: chunk.attachmentIndex ?? 0,
+      });
+    }
+
+    return file;
+  }
+
+  /**
+   * Adopt attachments of a channel into the file index
+   * Each attachment is looked up first, so only chunks that are really in
+   * the channel are recorded. Chunks the database already tracks are skipped
+   * @param channel Channel the attachments are in
+   * @param token Discord token; channels with a webhook can do without
+   * @param selections Attachments to adopt
+   * @param userId User to record the import in the history of, if any
+   * @returns The files created and the attachments that were left out
+   */
+  async importChunks(
+    channel: Channel,
+    token: string | undefined,
+    selections: ImportSelection[],
+    userId?: number
+  ): Promise<ImportResult> {
+    const { backend, target } = getChannelBackend(channel, token);
+    const tracked = await storage.getReferencedChunkIds(channel.id);
+    const skipped: SkippedChunk[] = [];
+    const chunks: StoredChunk[] = [];
+    const seen = new Set<string>();
+
+    for (const selection of selections) {
+      const key = `${selection.id}:${selection.filename}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      if (tracked.has(selection.id)) {
+        skipped.push({ filename: selection.filename, reason: 'is already tracked' });
+        continue;
+      }
+      if (manifestService.isManifestName(selection.filename)) {
+        skipped.push({ filename: selection.filename, reason: 'is a manifest; run a recovery to restore the file it describes' });
+        continue;
+      }
+      if (PARITY_NAME_PATTERN.test(selection.filename)) {
+        skipped.push({ filename: selection.filename, reason: 'is a parity chunk; only a recovery can restore it with its file' });
+        continue;
+      }
+
+      try {
+        const chunk = await backend.statChunk(target, selection.id, selection.filename, selection.attachment_index);
+        chunks.push({ ...chunk, attachmentIndex: selection.attachment_index ?? 0 });
+      } catch (error) {
+        if (!(error instanceof ChunkUnavailableError)) {
+          throw error;
+        }
+        skipped.push({ filename: selection.filename, reason: 'is no longer in the channel' });
+      }
+    }
+
+    const grouped = this.groupChunks(chunks);
+    skipped.push(...grouped.skipped);
+
+    const files: File[] = [];
+    for (const group of grouped.groups) {
+      const file = await this.createFileRecord(channel, group);
+
+      try {
+        const manifestId = await manifestService.publish(file, channel, token);
+        file.manifest_message_id = manifestId;
+      } catch (error) {
+        // The file is usable without it; only a later recovery would miss it
+        console.warn(`Could not post a manifest for imported file ${file.id}:`, error);
+      }
+
+      if (userId !== undefined) {
+        await profileService.recordOperation(userId, file.id, 'import', {
+          channel_id: channel.discord_channel_id,
+          parts: group.chunks.length,
+        });
+      }
+      files.push(file);
+    }
+
+    return { files, skipped };
+  }
+}
+
+export const importService = new ImportService();
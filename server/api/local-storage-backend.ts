@@ -0,0 +1,213 @@
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { compareSnowflakes } from './discord-service';
+import {
+  ChunkUnavailableError,
+  type BackendTarget,
+  type ChunkListOptions,
+  type ChunkLocation,
+  type ChunkPage,
+  type ChunkUpload,
+  type StorageBackend,
+  type StoredChunk,
+} from './storage-backend';
+
+const writeFileAsync = promisify(fs.writeFile);
+const readFileAsync = promisify(fs.readFile);
+const renameAsync = promisify(fs.rename);
+const unlinkAsync = promisify(fs.unlink);
+const mkdirAsync = promisify(fs.mkdir);
+const readdirAsync = promisify(fs.readdir);
+const statAsync = promisify(fs.stat);
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// Channel names become directory names, so keep them to a safe character set
+const CHANNEL_NAME_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9_.-]*$/;
+const CHUNK_ID_PATTERN = /^\d+$/;
+
+interface ChunkMetadata {
+  filename: string;
+  mimetype: string;
+  size: number;
+  timestamp: string;
+}
+
+/**
+ * Storage backend that keeps chunks in a local directory
+ * Each channel is a subdirectory of LOCAL_STORAGE_DIR holding one data file
+ * per chunk plus a JSON sidecar with its name and type. Chunk IDs are
+ * numeric and increase over time, like Discord message IDs, so listing and
+ * cursors behave the same way for both backends
+ */
+export class LocalStorageBackend implements StorageBackend {
+  // Every chunk is its own file, so nothing is gained by storing them together
+  readonly maxChunksPerPut = 1;
+
+  private lastChunkId = '';
+
+  constructor(private rootDir: string) {}
+
+  async putChunk(target: BackendTarget, data: Buffer, filename: string, mimetype: string): Promise<string> {
+    const dir = this.getChannelDir(target.channelId);
+    await mkdirAsync(dir, { recursive: true });
+
+    const chunkId = this.nextChunkId();
+    const metadata: ChunkMetadata = {
+      filename,
+      mimetype,
+      size: data.length,
+      timestamp: new Date().toISOString(),
+    };
+
+    // Write under a temporary name first so a crash never leaves a partial chunk
+    const dataPath = path.join(dir, chunkId);
+    await writeFileAsync(`${dataPath}.tmp`, data);
+    await renameAsync(`${dataPath}.tmp`, dataPath);
+    await writeFileAsync(`${dataPath}.json`, JSON.stringify(metadata));
+
+    return chunkId;
+  }
+
+  async putChunks(target: BackendTarget, chunks: ChunkUpload[]): Promise<ChunkLocation[]> {
+    const locations: ChunkLocation[] = [];
+    for (const chunk of chunks) {
+      const chunkId = await this.putChunk(target, chunk.data, chunk.filename, chunk.mimetype);
+      locations.push({ chunkId, attachmentIndex: 0 });
+    }
+    return locations;
+  }
+
+  async getChunk(target: BackendTarget, chunkId: string): Promise<Buffer> {
+    try {
+      return await readFileAsync(this.getChunkPath(target.channelId, chunkId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new ChunkUnavailableError(`Chunk ${chunkId} not found; it may have been deleted`);
+      }
+      throw error;
+    }
+  }
+
+  async statChunk(target: BackendTarget, chunkId: string): Promise<StoredChunk> {
+    const chunkPath = this.getChunkPath(target.channelId, chunkId);
+    let stats: fs.Stats;
+    try {
+      stats = await statAsync(chunkPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new ChunkUnavailableError(`Chunk ${chunkId} not found; it may have been deleted`);
+      }
+      throw error;
+    }
+
+    const metadata = await this.readMetadata(this.getChannelDir(target.channelId), chunkId);
+    return {
+      id: chunkId,
+      filename: metadata?.filename ?? chunkId,
+      size: stats.size,
+      timestamp: metadata?.timestamp,
+    };
+  }
+
+  async deleteChunk(target: BackendTarget, chunkId: string): Promise<void> {
+    const chunkPath = this.getChunkPath(target.channelId, chunkId);
+    for (const filePath of [chunkPath, `${chunkPath}.json`]) {
+      try {
+        await unlinkAsync(filePath);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async list(target: BackendTarget, options: ChunkListOptions = {}): Promise<ChunkPage> {
+    const dir = this.getChannelDir(target.channelId);
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const forward = options.after !== undefined && options.before === undefined;
+
+    let entries: string[];
+    try {
+      entries = await readdirAsync(dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { chunks: [], nextCursor: null };
+      }
+      throw error;
+    }
+
+    const chunkIds = entries
+      .filter(entry => CHUNK_ID_PATTERN.test(entry))
+      .filter(chunkId => forward
+        ? compareSnowflakes(chunkId, options.after!) > 0
+        : options.before === undefined || compareSnowflakes(chunkId, options.before) < 0)
+      .sort((a, b) => forward ? compareSnowflakes(a, b) : compareSnowflakes(b, a));
+
+    const pageIds = chunkIds.slice(0, pageSize);
+    const chunks: StoredChunk[] = [];
+    for (const chunkId of pageIds) {
+      const metadata = await this.readMetadata(dir, chunkId);
+      chunks.push({
+        id: chunkId,
+        filename: metadata?.filename ?? chunkId,
+        size: metadata?.size ?? 0,
+        timestamp: metadata?.timestamp,
+      });
+    }
+
+    return {
+      chunks,
+      nextCursor: chunkIds.length > pageSize ? pageIds[pageIds.length - 1] : null,
+    };
+  }
+
+  /**
+   * Local directories take chunks of any size
+   */
+  async getMaxChunkSize(_target: BackendTarget): Promise<number | null> {
+    return null;
+  }
+
+  /**
+   * Generates a numeric chunk ID that sorts after every earlier one
+   */
+  private nextChunkId(): string {
+    let chunkId = `${Date.now()}000`;
+    if (compareSnowflakes(chunkId, this.lastChunkId) <= 0) {
+      // Several chunks in the same millisecond; count up from the last one
+      const last = this.lastChunkId;
+      chunkId = `${last.slice(0, -3)}${String(parseInt(last.slice(-3), 10) + 1).padStart(3, '0')}`;
+    }
+    this.lastChunkId = chunkId;
+    return chunkId;
+  }
+
+  private async readMetadata(dir: string, chunkId: string): Promise<ChunkMetadata | null> {
+    try {
+      return JSON.parse(await readFileAsync(path.join(dir, `${chunkId}.json`), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private getChannelDir(channelId: string): string {
+    if (!CHANNEL_NAME_PATTERN.test(channelId)) {
+      throw new Error(`Invalid local channel name "${channelId}"`);
+    }
+    return path.join(this.rootDir, channelId);
+  }
+
+  private getChunkPath(channelId: string, chunkId: string): string {
+    if (!CHUNK_ID_PATTERN.test(chunkId)) {
+      throw new Error(`Invalid chunk ID "${chunkId}"`);
+    }
+    return path.join(this.getChannelDir(channelId), chunkId);
+  }
+}
+
+export const localStorageBackend = new LocalStorageBackend(
+  process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), 'local-storage')
+);
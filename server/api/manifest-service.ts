@@ -0,0 +1,300 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { getChannelBackend } from './backend-registry';
+import { compressionService } from './compression-service';
+import { compressionCodecEnum, fileTypeEnum, storageBackendEnum, type Channel, type CompressionCodec, type File } from '@shared/schema';
+
+// Identifies manifest attachments among everything else in a channel
+export const MANIFEST_FORMAT = 'discord-file-storage-manifest';
+export const MANIFEST_VERSION = 2;
+// Manifests of uncompressed files are still written as version 1, which
+// servers from before compression can restore
+const UNCOMPRESSED_MANIFEST_VERSION = 1;
+export const MANIFEST_SUFFIX = '.manifest.json';
+
+// Key derivation used by the encryption service
+const ENCRYPTION_KDF = 'pbkdf2-sha256';
+const ENCRYPTION_KDF_ITERATIONS = 100000;
+
+// A chunk, by the channel it is stored in and its chunk ID there
+export interface ManifestChunkRef {
+  channel_id: string; // Discord channel ID, or directory name for local channels
+  message_id: string;
+  attachment_index: number;
+}
+
+export interface ManifestPart extends ManifestChunkRef {
+  part_number: number;
+  filename: string; // Name the part was stored under
+  size: number;
+  sha256: string | null;
+  replicas: ManifestChunkRef[];
+}
+
+export interface ManifestParityChunk extends ManifestChunkRef {
+  stripe_number: number;
+  shard_index: number;
+  filename: string;
+  size: number;
+  sha256: string | null;
+}
+
+export interface FileManifest {
+  format: typeof MANIFEST_FORMAT;
+  version: number;
+  filename: string;
+  size: number;
+  mime_type: string | null;
+  type: File['type'];
+  sha256: string | null;
+  chunk_size: number;
+  replication_factor: number;
+  created_at: string | null;
+  // Every channel a chunk of the file is stored in, the file's own first
+  channels: { channel_id: string; backend: Channel['backend']; name: string | null }[];
+  parts: ManifestPart[];
+  parity: {
+    data_shards: number;
+    parity_shards: number;
+    chunks: ManifestParityChunk[];
+  } | null;
+  encryption: {
+    algorithm: string;
+    kdf: string;
+    iterations: number;
+    salt: string; // Hex
+  } | null;
+  compression: CompressionCodec | null; // Codec the parts hold the file compressed with
+}
+
+const chunkRefSchema = z.object({
+  channel_id: z.string(),
+  message_id: z.string(),
+  attachment_index: z.number().int().min(0),
+});
+
+// Checks manifests read back from a channel; unknown fields are dropped
+const manifestSchema = z.object({
+  format: z.literal(MANIFEST_FORMAT),
+  version: z.number().int().min(1).max(MANIFEST_VERSION),
+  filename: z.string().min(1),
+  size: z.number().int().min(0),
+  mime_type: z.string().nullable(),
+  type: z.enum(fileTypeEnum.enumValues),
+  sha256: z.string().nullable(),
+  chunk_size: z.number().int().min(1),
+  replication_factor: z.number().int().min(1),
+  created_at: z.string().nullable(),
+  channels: z.array(z.object({
+    channel_id: z.string(),
+    backend: z.enum(storageBackendEnum.enumValues),
+    name: z.string().nullable(),
+  })).min(1),
+  parts: z.array(chunkRefSchema.extend({
+    part_number: z.number().int().min(1),
+    filename: z.string(),
+    size: z.number().int().min(0),
+    sha256: z.string().nullable(),
+    replicas: z.array(chunkRefSchema),
+  })).min(1),
+  parity: z.object({
+    data_shards: z.number().int().min(1),
+    parity_shards: z.number().int().min(1),
+    chunks: z.array(chunkRefSchema.extend({
+      stripe_number: z.number().int().min(1),
+      shard_index: z.number().int().min(0),
+      filename: z.string(),
+      size: z.number().int().min(0),
+      sha256: z.string().nullable(),
+    })),
+  }).nullable(),
+  encryption: z.object({
+    algorithm: z.string(),
+    kdf: z.string(),
+    iterations: z.number().int(),
+    salt: z.string(),
+  }).nullable(),
+  compression: z.enum(compressionCodecEnum.enumValues).nullable().default(null),
+});
+
+/**
+ * Service for the manifests that make stored files self-describing
+ * Every completed upload posts a small JSON attachment to the file's channel
+ * listing the file's metadata and where each of its chunks is, so the file
+ * can be found and put back together from the channel alone
+ */
+export class ManifestService {
+  /**
+   * Get the name a file's manifest is stored under
+   * @param filename Original filename
+   */
+  getManifestName(filename: string): string {
+    return `${filename}${MANIFEST_SUFFIX}`;
+  }
+
+  /**
+   * Check whether a stored chunk is a manifest, going by its name
+   */
+  isManifestName(filename: string): boolean {
+    return filename.endsWith(MANIFEST_SUFFIX);
+  }
+
+  /**
+   * Read a manifest back from the contents of its attachment
+   * @param data Attachment contents
+   * @returns The manifest
+   * @throws Error if it is not a manifest this version understands
+   */
+  parseManifest(data: Buffer): FileManifest {
+    let json: unknown;
+    try {
+      json = JSON.parse(data.toString('utf8'));
+    } catch {
+      throw new Error('Manifest is not valid JSON');
+    }
+
+    const result = manifestSchema.safeParse(json);
+    if (!result.success) {
+      const issue = result.error.errors[0];
+      throw new Error(`Invalid manifest: ${issue.path.join('.') || 'manifest'}: ${issue.message}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * Describe a file and every chunk stored for it
+   * @param file File record
+   * @returns The manifest
+   */
+  async buildManifest(file: File): Promise<FileManifest> {
+    const channels = new Map<number, Channel>();
+    const getChannelRef = async (channelId: number): Promise<string> => {
+      if (!channels.has(channelId)) {
+        const channel = await storage.getChannel(channelId);
+        if (!channel) {
+          throw new Error(`Channel ${channelId} holding part of "${file.original_filename}" no longer exists`);
+        }
+        channels.set(channelId, channel);
+      }
+      return channels.get(channelId)!.discord_channel_id;
+    };
+    await getChannelRef(file.channel_id);
+
+    const isLarge = file.type === 'large_chunked';
+    const storedName = compressionService.getStoredName(file);
+    const partName = (partNumber: number) => isLarge ? `${storedName}.part${partNumber}` : storedName;
+
+    const parts = (await storage.getFileParts(file.id))
+      .filter(part => part.upload_complete && part.discord_message_id)
+      .sort((a, b) => a.part_number - b.part_number);
+    const replicas = await storage.getFilePartReplicas(file.id);
+
+    const manifestParts: ManifestPart[] = [];
+    for (const part of parts) {
+      const partReplicas: ManifestChunkRef[] = [];
+      for (const replica of replicas.filter(candidate => candidate.part_id === part.id)) {
+        partReplicas.push({
+          channel_id: await getChannelRef(replica.channel_id),
+          message_id: replica.chunk_id,
+          attachment_index: 0,
+        });
+      }
+      // A deduplicated part is stored under the name of the file that stored it first
+      const sharedChunk = part.shared_chunk_id ? await storage.getSharedChunk(part.shared_chunk_id) : undefined;
+      manifestParts.push({
+        part_number: part.part_number,
+        filename: sharedChunk?.filename ?? partName(part.part_number),
+        size: part.size_bytes,
+        sha256: part.sha256,
+        channel_id: await getChannelRef(part.channel_id ?? file.channel_id),
+        message_id: part.discord_message_id!,
+        attachment_index: part.attachment_index,
+        replicas: partReplicas,
+      });
+    }
+
+    let parity: FileManifest['parity'] = null;
+    if (isLarge && file.parity_shards > 0) {
+      const chunks: ManifestParityChunk[] = [];
+      const parityParts = (await storage.getFileParityParts(file.id))
+        .filter(parityPart => parityPart.upload_complete && parityPart.discord_message_id);
+      for (const parityPart of parityParts) {
+        chunks.push({
+          stripe_number: parityPart.stripe_number,
+          shard_index: parityPart.shard_index,
+          filename: `${storedName}.stripe${parityPart.stripe_number}.parity${parityPart.shard_index + 1}`,
+          size: parityPart.size_bytes,
+          sha256: parityPart.sha256,
+          channel_id: await getChannelRef(parityPart.channel_id),
+          message_id: parityPart.discord_message_id!,
+          attachment_index: 0,
+        });
+      }
+      parity = { data_shards: file.data_shards, parity_shards: file.parity_shards, chunks };
+    }
+
+    const encryptionKey = await storage.getFileEncryptionKey(file.id);
+
+    return {
+      format: MANIFEST_FORMAT,
+      version: file.compression ? MANIFEST_VERSION : UNCOMPRESSED_MANIFEST_VERSION,
+      filename: file.original_filename,
+      size: file.size_bytes,
+      mime_type: file.mime_type,
+      type: file.type,
+      sha256: file.sha256,
+      chunk_size: file.chunk_size,
+      replication_factor: file.replication_factor,
+      created_at: file.created_at ? new Date(file.created_at).toISOString() : null,
+      channels: Array.from(channels.values()).map(channel => ({
+        channel_id: channel.discord_channel_id,
+        backend: channel.backend,
+        name: channel.name,
+      })),
+      parts: manifestParts,
+      parity,
+      encryption: encryptionKey
+        ? {
+          algorithm: encryptionKey.algorithm,
+          kdf: ENCRYPTION_KDF,
+          iterations: ENCRYPTION_KDF_ITERATIONS,
+          salt: encryptionKey.salt,
+        }
+        : null,
+      compression: file.compression,
+    };
+  }
+
+  /**
+   * Post a file's manifest to its channel, replacing any earlier one
+   * @param file File record with all of its chunks stored
+   * @param channel Channel the file belongs to
+   * @param token Discord token; channels with a webhook can do without
+   * @returns Chunk ID of the manifest
+   */
+  async publish(file: File, channel: Channel, token: string | undefined): Promise<string> {
+    const manifest = await this.buildManifest(file);
+    const { backend, target } = getChannelBackend(channel, token);
+
+    const manifestId = await backend.putChunk(
+      target,
+      Buffer.from(JSON.stringify(manifest, null, 2)),
+      this.getManifestName(file.original_filename),
+      'application/json'
+    );
+    await storage.updateFile(file.id, { manifest_message_id: manifestId });
+
+    if (file.manifest_message_id && file.manifest_message_id !== manifestId) {
+      try {
+        await backend.deleteChunk(target, file.manifest_message_id);
+      } catch (error) {
+        // The new manifest is what counts; an old one left behind is only clutter
+        console.warn(`Could not delete the old manifest of file ${file.id}:`, error);
+      }
+    }
+
+    return manifestId;
+  }
+}
+
+export const manifestService = new ManifestService();
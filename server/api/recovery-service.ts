@@ -0,0 +1,408 @@
+import { storage } from '../storage';
+import { getChannelBackend } from './backend-registry';
+import { importService, PART_NAME_PATTERN, PARITY_NAME_PATTERN } from './import-service';
+import { manifestService, type FileManifest, type ManifestPart } from './manifest-service';
+import { type BackendTarget, type StorageBackend, type StoredChunk } from './storage-backend';
+import { type Channel } from '@shared/schema';
+
+// Chunks requested per page while walking a channel's history
+const SCAN_PAGE_SIZE = 100;
+
+export interface RecoveryOptions {
+  channelId: string; // Discord channel ID, or directory name for local channels
+  backend: Channel['backend'];
+  token?: string; // Needed to read the history of Discord channels
+  dryRun?: boolean; // Report what would be recovered without writing anything
+}
+
+export interface RecoveredFile {
+  filename: string;
+  source: 'manifest' | 'parts';
+  parts: number;
+  size: number;
+  encrypted: boolean; // The password has to be set again; only its salt is in the manifest
+  file_id: number | null; // null on a dry run
+}
+
+export interface RecoveryReport {
+  channel_id: string;
+  dry_run: boolean;
+  started_at: string;
+  finished_at: string | null; // null while the run is in progress
+  error: string | null; // Why the run stopped early, if it did
+  chunks_scanned: number;
+  already_tracked: number; // Files the database still knows about
+  files: RecoveredFile[];
+  conflicts: string[]; // Things found that could not be recovered as they are
+  orphans: StoredChunk[]; // Chunks that belong to no file that could be recovered
+}
+
+// Where recovered rows go: the channel being scanned and its backend
+interface ScanContext {
+  channel: Channel;
+  backend: StorageBackend;
+  target: BackendTarget;
+  options: RecoveryOptions;
+  report: RecoveryReport;
+}
+
+/**
+ * Service for rebuilding the metadata database from what is stored in a
+ * channel, for when the database is lost
+ * A recovery walks the channel's full history. Files with a manifest are
+ * restored from it, with their replicas and parity chunks; other files are
+ * pieced together from their name.partN chunks. Files the database already
+ * records are left alone, so a channel can be recovered more than once.
+ * Deduplicated files share chunks, so their manifests may list the same
+ * chunks; the shared chunk table is rebuilt with a reference per part
+ */
+export class RecoveryService {
+  private currentRun: RecoveryReport | null = null;
+  private lastRun: RecoveryReport | null = null;
+
+  /**
+   * Get the run in progress, or the last finished one
+   */
+  getStatus(): { running: boolean; run: RecoveryReport | null } {
+    return {
+      running: this.currentRun !== null,
+      run: this.currentRun ?? this.lastRun,
+    };
+  }
+
+  /**
+   * Recover the files stored in a channel
+   * @param options Channel to scan, credentials, and whether to write anything
+   * @returns Report of what was recovered and what was left over
+   */
+  async run(options: RecoveryOptions): Promise<RecoveryReport> {
+    if (this.currentRun) {
+      throw new Error('A recovery is already running');
+    }
+
+    const report: RecoveryReport = {
+      channel_id: options.channelId,
+      dry_run: !!options.dryRun,
+      started_at: new Date().toISOString(),
+      finished_at: null,
+      error: null,
+      chunks_scanned: 0,
+      already_tracked: 0,
+      files: [],
+      conflicts: [],
+      orphans: [],
+    };
+    this.currentRun = report;
+
+    try {
+      const channel = await this.getChannel(options.channelId, options.backend, null, !!options.dryRun);
+      const { backend, target } = getChannelBackend(channel, options.token);
+      const context: ScanContext = { channel, backend, target, options, report };
+
+      const chunks = await this.scanChannel(backend, target);
+      report.chunks_scanned = chunks.length;
+      const tracked = channel.id > 0 ? await storage.getReferencedChunkIds(channel.id) : new Set<string>();
+
+      // Chunks that belong to a file found so far, by chunk ID
+      const claimed = new Set<string>();
+      await this.recoverFromManifests(context, chunks, tracked, claimed);
+      await this.recoverFromPartNames(context, chunks, tracked, claimed);
+
+      report.orphans = chunks.filter(chunk => !claimed.has(chunk.id) && !tracked.has(chunk.id));
+    } catch (error) {
+      report.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      report.finished_at = new Date().toISOString();
+      this.lastRun = report;
+      this.currentRun = null;
+    }
+
+    return report;
+  }
+
+  /**
+   * List every chunk in a channel, newest first
+   */
+  private async scanChannel(backend: StorageBackend, target: BackendTarget): Promise<StoredChunk[]> {
+    const chunks: StoredChunk[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await backend.list(target, { before: cursor, pageSize: SCAN_PAGE_SIZE });
+      chunks.push(...page.chunks);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return chunks;
+  }
+
+  /**
+   * Restore every file that has a manifest in the channel
+   * Manifests are read newest first. A file whose manifest was posted again
+   * leaves older manifests behind; those are skipped, as the newest one
+   * describes the file as it was last. Different files may list the same
+   * chunks, as deduplicated files do
+   */
+  private async recoverFromManifests(
+    context: ScanContext,
+    chunks: StoredChunk[],
+    tracked: Set<string>,
+    claimed: Set<string>
+  ): Promise<void> {
+    const { backend, target, options, report } = context;
+    const chunkIds = new Set(chunks.map(chunk => chunk.id));
+    // Files restored so far, by what identifies a file across its manifests
+    const restored = new Set<string>();
+
+    for (const chunk of chunks.filter(candidate => manifestService.isManifestName(candidate.filename))) {
+      claimed.add(chunk.id);
+
+      let manifest: FileManifest;
+      try {
+        manifest = manifestService.parseManifest(await backend.getChunk(target, chunk.id, chunk.filename, chunk.attachmentIndex));
+      } catch (error) {
+        report.conflicts.push(`Manifest "${chunk.filename}" (${chunk.id}) could not be read: ${error instanceof Error ? error.message : error}`);
+        continue;
+      }
+
+      // Chunks of the file that are stored in this channel
+      const localChunkIds = [
+        ...manifest.parts.flatMap(part => [part, ...part.replicas]),
+        ...(manifest.parity?.chunks ?? []),
+      ].filter(ref => ref.channel_id === options.channelId).map(ref => ref.message_id);
+
+      localChunkIds.forEach(chunkId => claimed.add(chunkId));
+      if (tracked.has(chunk.id) || await this.isTracked(context, manifest)) {
+        report.already_tracked++;
+        continue;
+      }
+      const fileKey = this.getFileKey(manifest);
+      if (restored.has(fileKey)) {
+        report.conflicts.push(`Manifest "${chunk.filename}" (${chunk.id}) is an older manifest of a file a newer one already describes; skipped`);
+        continue;
+      }
+      restored.add(fileKey);
+
+      const partNumbers = manifest.parts.map(part => part.part_number).sort((a, b) => a - b);
+      if (partNumbers.some((partNumber, index) => partNumber !== index + 1)) {
+        report.conflicts.push(`Manifest "${chunk.filename}" (${chunk.id}) does not list parts 1 to ${partNumbers.length}; skipped`);
+        continue;
+      }
+
+      const missing = localChunkIds.filter(chunkId => !chunkIds.has(chunkId)).length;
+      if (missing > 0) {
+        report.conflicts.push(`"${manifest.filename}" was recovered, but ${missing} of its chunks are no longer in the channel`);
+      }
+
+      report.files.push({
+        filename: manifest.filename,
+        source: 'manifest',
+        parts: manifest.parts.length,
+        size: manifest.size,
+        encrypted: manifest.encryption !== null,
+        file_id: options.dryRun ? null : await this.restoreManifest(context, manifest, chunk.id),
+      });
+    }
+  }
+
+  /**
+   * Create the rows of a file described by a manifest
+   * @returns ID of the new file record
+   */
+  private async restoreManifest(context: ScanContext, manifest: FileManifest, manifestId: string): Promise<number> {
+    const channels = new Map<string, Channel>([[context.channel.discord_channel_id, context.channel]]);
+    for (const manifestChannel of manifest.channels) {
+      if (!channels.has(manifestChannel.channel_id)) {
+        channels.set(
+          manifestChannel.channel_id,
+          await this.getChannel(manifestChannel.channel_id, manifestChannel.backend, manifestChannel.name, false)
+        );
+      }
+    }
+    const channelOf = (channelId: string): number => {
+      const channel = channels.get(channelId);
+      if (!channel) {
+        throw new Error(`Manifest of "${manifest.filename}" refers to channel ${channelId} without listing it`);
+      }
+      return channel.id;
+    };
+
+    const parts = manifest.parts.slice().sort((a, b) => a.part_number - b.part_number);
+    const file = await storage.createFile({
+      filename: manifest.filename,
+      original_filename: manifest.filename,
+      size_bytes: manifest.size,
+      type: manifest.type,
+      channel_id: context.channel.id,
+      discord_message_id: parts[0].message_id,
+      upload_complete: true,
+      is_public: false,
+      mime_type: manifest.mime_type,
+      replication_factor: manifest.replication_factor,
+      data_shards: manifest.parity?.data_shards ?? 0,
+      parity_shards: manifest.parity?.parity_shards ?? 0,
+      sha256: manifest.sha256,
+      chunk_size: manifest.chunk_size,
+      manifest_message_id: manifestId,
+      compression: manifest.compression,
+    });
+    if (manifest.created_at) {
+      await storage.updateFile(file.id, { created_at: new Date(manifest.created_at) });
+    }
+
+    for (const part of parts) {
+      const filePart = await storage.createFilePart({
+        file_id: file.id,
+        part_number: part.part_number,
+        size_bytes: part.size,
+        discord_message_id: part.message_id,
+        upload_complete: true,
+        channel_id: channelOf(part.channel_id),
+        sha256: part.sha256,
+        attachment_index: part.attachment_index,
+      });
+      if (part.sha256) {
+        await this.restoreSharedChunk(filePart.id, channelOf(part.channel_id), part, part.sha256);
+      }
+      for (const replica of part.replicas) {
+        await storage.createFilePartReplica({
+          part_id: filePart.id,
+          channel_id: channelOf(replica.channel_id),
+          chunk_id: replica.message_id,
+        });
+      }
+    }
+
+    for (const parityChunk of manifest.parity?.chunks ?? []) {
+      await storage.createFileParityPart({
+        file_id: file.id,
+        stripe_number: parityChunk.stripe_number,
+        shard_index: parityChunk.shard_index,
+        size_bytes: parityChunk.size,
+        discord_message_id: parityChunk.message_id,
+        upload_complete: true,
+        channel_id: channelOf(parityChunk.channel_id),
+        sha256: parityChunk.sha256,
+      });
+    }
+
+    return file.id;
+  }
+
+  /**
+   * Record a restored part as a reference to its chunk
+   * The part joins the shared chunk of another file already pointing at the
+   * same chunk, so the chunk is kept until the last of them is deleted
+   */
+  private async restoreSharedChunk(partId: number, channelId: number, part: ManifestPart, sha256: string): Promise<void> {
+    const existing = (await storage.getSharedChunksByChunkId(channelId, part.message_id))
+      .find(chunk => chunk.attachment_index === part.attachment_index && chunk.sha256 === sha256 && chunk.ref_count > 0);
+    if (existing && await storage.reuseSharedChunk(partId, existing.id)) {
+      return;
+    }
+    await storage.createSharedChunk(partId, {
+      channel_id: channelId,
+      sha256,
+      size_bytes: part.size,
+      chunk_id: part.message_id,
+      attachment_index: part.attachment_index,
+      filename: part.filename,
+    });
+  }
+
+  /**
+   * Check whether the database still has the file a manifest describes
+   * Chunks alone do not tell, as they may be shared with other files
+   */
+  private async isTracked(context: ScanContext, manifest: FileManifest): Promise<boolean> {
+    if (context.channel.id === 0) {
+      return false;
+    }
+    const file = await storage.getFileByName(context.channel.id, manifest.filename);
+    return !!file && this.getFileKey(manifest) === this.getFileKey({
+      filename: file.original_filename,
+      created_at: file.created_at ? new Date(file.created_at).toISOString() : null,
+      size: file.size_bytes,
+      sha256: file.sha256,
+    });
+  }
+
+  /**
+   * Identify a file across the manifests posted for it; a later upload of
+   * the same contents under the same name is told apart by when it was made
+   */
+  private getFileKey(manifest: Pick<FileManifest, 'filename' | 'created_at' | 'size' | 'sha256'>): string {
+    return JSON.stringify([manifest.filename, manifest.created_at, manifest.size, manifest.sha256]);
+  }
+
+  /**
+   * Piece together files from name.partN chunks that no manifest claimed
+   * A name is only recovered if it has exactly one chunk for each of parts
+   * 1 to N; anything else is reported as a conflict
+   */
+  private async recoverFromPartNames(
+    context: ScanContext,
+    chunks: StoredChunk[],
+    tracked: Set<string>,
+    claimed: Set<string>
+  ): Promise<void> {
+    const { channel, options, report } = context;
+
+    const partChunks = chunks.filter(chunk =>
+      PART_NAME_PATTERN.test(chunk.filename)
+      && !PARITY_NAME_PATTERN.test(chunk.filename)
+      && !claimed.has(chunk.id)
+      && !tracked.has(chunk.id));
+    const { groups, skipped } = importService.groupChunks(partChunks);
+    skipped.forEach(entry => report.conflicts.push(`"${entry.filename}" ${entry.reason}`));
+
+    for (const group of groups) {
+      group.chunks.forEach(chunk => claimed.add(chunk.id));
+      const fileId = options.dryRun ? null : (await importService.createFileRecord(channel, group)).id;
+      report.files.push({
+        filename: group.filename,
+        source: 'parts',
+        parts: group.chunks.length,
+        size: group.chunks.reduce((total, chunk) => total + chunk.size, 0),
+        encrypted: false,
+        file_id: fileId,
+      });
+    }
+  }
+
+  /**
+   * Find a channel by its Discord ID or directory name, creating it if needed
+   * On a dry run a missing channel is not created; a stand-in with ID 0 is
+   * returned instead
+   */
+  private async getChannel(
+    channelId: string,
+    backend: Channel['backend'],
+    name: string | null,
+    dryRun: boolean
+  ): Promise<Channel> {
+    const existing = await storage.getChannelByDiscordId(channelId);
+    if (existing) {
+      return existing;
+    }
+    if (dryRun) {
+      return {
+        id: 0,
+        discord_channel_id: channelId,
+        name,
+        backend,
+        webhook_url: null,
+        group_id: null,
+        created_at: null,
+        last_used: null,
+        compression: null,
+      };
+    }
+    return storage.createChannel({
+      discord_channel_id: channelId,
+      name: name ?? `Channel ${channelId}`,
+      backend,
+    });
+  }
+}
+
+export const recoveryService = new RecoveryService();
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { ReedSolomon } from './reed-solomon';
+
+// Data shards of random bytes; the last one is shorter, like a file's last part
+function makeData(dataShards: number, shardSize: number): Buffer[] {
+  const data: Buffer[] = [];
+  for (let index = 0; index < dataShards; index++) {
+    data.push(crypto.randomBytes(index === dataShards - 1 ? Math.floor(shardSize / 2) : shardSize));
+  }
+  return data;
+}
+
+function padded(shard: Buffer, shardSize: number): Buffer {
+  return Buffer.concat([shard, Buffer.alloc(shardSize - shard.length)]);
+}
+
+describe('ReedSolomon', () => {
+  it('rebuilds a stripe from any dataShards of its shards', () => {
+    const dataShards = 4;
+    const parityShards = 2;
+    const shardSize = 64;
+    const codec = new ReedSolomon(dataShards, parityShards);
+    const data = makeData(dataShards, shardSize);
+    const shards = [...data, ...codec.encode(data, shardSize)];
+
+    for (let first = 0; first < shards.length; first++) {
+      for (let second = first + 1; second < shards.length; second++) {
+        const damaged = shards.map((shard, index) => index === first || index === second ? null : shard);
+        const rebuilt = codec.reconstruct(damaged, shardSize);
+        rebuilt.forEach((shard, index) => {
+          assert.deepEqual(shard, padded(data[index], shardSize), `lost shards ${first} and ${second}`);
+        });
+      }
+    }
+  });
+
+  it('treats missing data shards of a short stripe as zeros', () => {
+    const codec = new ReedSolomon(3, 1);
+    const data = [Buffer.from('abcd'), Buffer.from('ef')];
+    const parity = codec.encode(data, 4);
+
+    const rebuilt = codec.reconstruct([null, data[1], Buffer.alloc(0), parity[0]], 4);
+    assert.deepEqual(rebuilt[0], data[0]);
+    assert.deepEqual(rebuilt[2], Buffer.alloc(4));
+  });
+
+  it('refuses to rebuild a stripe that lost more shards than it has parity', () => {
+    const codec = new ReedSolomon(2, 1);
+    const data = makeData(2, 8);
+    const [parity] = codec.encode(data, 8);
+
+    assert.throws(() => codec.reconstruct([null, null, parity], 8), /Need 2 shards/);
+  });
+
+  it('rejects layouts it cannot encode', () => {
+    assert.throws(() => new ReedSolomon(0, 1), /Unsupported/);
+    assert.throws(() => new ReedSolomon(200, 57), /Unsupported/);
+  });
+});
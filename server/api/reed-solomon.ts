@@ -0,0 +1,181 @@
+// GF(2^8) arithmetic with the polynomial x^8 + x^4 + x^3 + x^2 + 1
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+
+for (let i = 0, value = 1; i < 255; i++) {
+  GF_EXP[i] = value;
+  GF_LOG[value] = i;
+  value <<= 1;
+  if (value & 0x100) {
+    value ^= 0x11d;
+  }
+}
+for (let i = 255; i < 512; i++) {
+  GF_EXP[i] = GF_EXP[i - 255];
+}
+
+function gfMultiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a] + GF_LOG[b]];
+}
+
+function gfInverse(a: number): number {
+  if (a === 0) {
+    throw new Error('Zero has no inverse in GF(256)');
+  }
+  return GF_EXP[255 - GF_LOG[a]];
+}
+
+// Upper bound on data plus parity shards; shard indexes must fit in a byte
+export const MAX_TOTAL_SHARDS = 256;
+
+/**
+ * Systematic Reed-Solomon erasure code over GF(256)
+ * The first `dataShards` shards are the data itself and the rest are parity
+ * computed from a Cauchy matrix, so any `dataShards` of the shards are enough
+ * to rebuild the data. Shards shorter than the shard size are treated as if
+ * they were padded with zeros
+ */
+export class ReedSolomon {
+  // Row r gives the coefficients of parity shard r over the data shards
+  private parityMatrix: number[][];
+
+  constructor(private dataShards: number, private parityShards: number) {
+    if (dataShards < 1 || parityShards < 1 || dataShards + parityShards > MAX_TOTAL_SHARDS) {
+      throw new Error(`Unsupported Reed-Solomon layout ${dataShards}+${parityShards}`);
+    }
+
+    this.parityMatrix = [];
+    for (let row = 0; row < parityShards; row++) {
+      const coefficients: number[] = [];
+      for (let column = 0; column < dataShards; column++) {
+        coefficients.push(gfInverse((dataShards + row) ^ column));
+      }
+      this.parityMatrix.push(coefficients);
+    }
+  }
+
+  /**
+   * Compute the parity shards of a stripe
+   * @param data Data shards; fewer than dataShards means the rest are all zeros
+   * @param shardSize Length of every shard, at least that of the longest data shard
+   * @returns Parity shards, each shardSize bytes long
+   */
+  encode(data: Buffer[], shardSize: number): Buffer[] {
+    if (data.length > this.dataShards) {
+      throw new Error(`Expected at most ${this.dataShards} data shards, got ${data.length}`);
+    }
+
+    return this.parityMatrix.map(coefficients => {
+      const parity = Buffer.alloc(shardSize);
+      data.forEach((shard, column) => this.addMultiplied(parity, shard, coefficients[column]));
+      return parity;
+    });
+  }
+
+  /**
+   * Rebuild the data shards of a stripe
+   * @param shards Data shards followed by parity shards, null where a shard is missing
+   * @param shardSize Length of the parity shards
+   * @returns Data shards, each shardSize bytes long
+   */
+  reconstruct(shards: (Buffer | null)[], shardSize: number): Buffer[] {
+    if (shards.length !== this.dataShards + this.parityShards) {
+      throw new Error(`Expected ${this.dataShards + this.parityShards} shards, got ${shards.length}`);
+    }
+
+    // Rows of the encoding matrix for the first dataShards shards we have
+    const rows: number[] = [];
+    for (let index = 0; index < shards.length && rows.length < this.dataShards; index++) {
+      if (shards[index]) {
+        rows.push(index);
+      }
+    }
+    if (rows.length < this.dataShards) {
+      throw new Error(`Need ${this.dataShards} shards to rebuild the stripe, only ${rows.length} are available`);
+    }
+
+    const decodeMatrix = this.invert(rows.map(row => this.encodingRow(row)));
+
+    const data: Buffer[] = [];
+    for (let column = 0; column < this.dataShards; column++) {
+      const shard = shards[column];
+      if (shard) {
+        data.push(shard.length === shardSize ? shard : Buffer.concat([shard, Buffer.alloc(shardSize - shard.length)]));
+        continue;
+      }
+
+      const rebuilt = Buffer.alloc(shardSize);
+      rows.forEach((row, index) => this.addMultiplied(rebuilt, shards[row]!, decodeMatrix[column][index]));
+      data.push(rebuilt);
+    }
+    return data;
+  }
+
+  private encodingRow(index: number): number[] {
+    if (index >= this.dataShards) {
+      return this.parityMatrix[index - this.dataShards];
+    }
+    const row: number[] = new Array(this.dataShards).fill(0);
+    row[index] = 1;
+    return row;
+  }
+
+  /**
+   * Inverts a square matrix by Gauss-Jordan elimination
+   */
+  private invert(matrix: number[][]): number[][] {
+    const size = matrix.length;
+    const work = matrix.map((row, index) => {
+      const identity: number[] = new Array(size).fill(0);
+      identity[index] = 1;
+      return [...row, ...identity];
+    });
+
+    for (let column = 0; column < size; column++) {
+      let pivot = column;
+      while (pivot < size && work[pivot][column] === 0) {
+        pivot++;
+      }
+      if (pivot === size) {
+        throw new Error('Reed-Solomon decoding matrix is singular');
+      }
+      [work[column], work[pivot]] = [work[pivot], work[column]];
+
+      const scale = gfInverse(work[column][column]);
+      work[column] = work[column].map(value => gfMultiply(value, scale));
+
+      for (let row = 0; row < size; row++) {
+        const factor = work[row][column];
+        if (row !== column && factor !== 0) {
+          work[row] = work[row].map((value, index) => value ^ gfMultiply(factor, work[column][index]));
+        }
+      }
+    }
+
+    return work.map(row => row.slice(size));
+  }
+
+  /**
+   * Adds coefficient * input into output, byte by byte
+   */
+  private addMultiplied(output: Buffer, input: Buffer, coefficient: number) {
+    if (coefficient === 0) {
+      return;
+    }
+
+    if (coefficient === 1) {
+      for (let i = 0; i < input.length; i++) {
+        output[i] ^= input[i];
+      }
+      return;
+    }
+
+    const table = new Uint8Array(256);
+    for (let value = 1; value < 256; value++) {
+      table[value] = gfMultiply(coefficient, value);
+    }
+    for (let i = 0; i < input.length; i++) {
+      output[i] ^= table[input[i]];
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { storage } from '../storage';
+import { getChannelBackend } from './backend-registry';
+import { compressionService } from './compression-service';
+import { downloadService, type PartCopy } from './download-service';
+import { manifestService } from './manifest-service';
+import { ChunkUnavailableError, type TransferOptions } from './storage-backend';
+import { TaskPool } from './task-pool';
+import { uploadService } from './upload-service';
+import { type File, type FilePart } from '@shared/schema';
+
+export interface ReplicationResult {
+  replicas_added: number;
+  copies_removed: number; // Copies found to be gone and dropped from the database
+  parts_short: number[]; // Parts that still have fewer copies than the file asks for
+  parts_lost: number[]; // Parts with no readable copy left
+}
+
+/**
+ * Service for restoring the replication factor of stored files
+ * The database only knows which copies were written, so a copy that went
+ * missing is noticed by a download falling back to another replica, or by
+ * re-replicating the file here, which reads every copy back
+ */
+export class ReplicationService {
+  /**
+   * Bring every part of a file back up to its replication factor
+   * Every copy of each part is read back, dropping any copy found to be
+   * gone; a part that lost its primary copy gets a replica promoted in its
+   * place. Missing copies are then written to channels of the file's
+   * channel group that do not hold one yet, and the file's manifest is
+   * reposted if anything changed
+   * @param file File record to re-replicate
+   * @param token Discord token; channels with a webhook can do without
+   * @param options Transfer options such as chunk concurrency
+   * @returns What was repaired, and what could not be
+   */
+  async replicateFile(file: File, token: string | undefined, options: TransferOptions = {}): Promise<ReplicationResult> {
+    if (!file.upload_complete) {
+      throw new Error(`File "${file.original_filename}" has not finished uploading`);
+    }
+
+    const channel = await storage.getChannel(file.channel_id);
+    if (!channel) {
+      throw new Error(`Channel of "${file.original_filename}" no longer exists`);
+    }
+
+    const parts = (await storage.getFileParts(file.id))
+      .filter(part => part.upload_complete && part.discord_message_id);
+    if (parts.length === 0) {
+      throw new Error(`File "${file.original_filename}" has no stored parts to replicate`);
+    }
+
+    const members = await uploadService.getStripeChannels(channel);
+    const copies = await downloadService.getPartCopies(file, channel, parts);
+    const result: ReplicationResult = { replicas_added: 0, copies_removed: 0, parts_short: [], parts_lost: [] };
+
+    const pool = new TaskPool(options.concurrency ?? 1);
+    for (const part of parts) {
+      await pool.add(async () => {
+        const partCopies = copies.get(part.id)!;
+        const storedName = compressionService.getStoredName(file);
+        const partName = file.type === 'large_chunked' ? `${storedName}.part${part.part_number}` : storedName;
+        const data = await this.checkCopies(file, part, partName, partCopies, token, result);
+        if (!data) {
+          result.parts_lost.push(part.part_number);
+          return;
+        }
+
+        const mimetype = file.type === 'large_chunked' ? 'application/octet-stream' : compressionService.getStoredType(file);
+        const held = partCopies.map(copy => copy.channel.id);
+
+        for (const member of members) {
+          if (held.length >= file.replication_factor) {
+            break;
+          }
+          if (held.indexOf(member.id) >= 0) {
+            continue;
+          }
+          const { backend, target } = getChannelBackend(member, token);
+          const chunkId = await backend.putChunk(target, data, partName, mimetype);
+          await storage.createFilePartReplica({ part_id: part.id, channel_id: member.id, chunk_id: chunkId });
+          held.push(member.id);
+          result.replicas_added++;
+        }
+
+        if (held.length < file.replication_factor) {
+          result.parts_short.push(part.part_number);
+        }
+      });
+    }
+    await pool.drain();
+
+    if (result.replicas_added > 0 || result.copies_removed > 0) {
+      // Chunks moved, so the manifest in the channel is out of date
+      await manifestService.publish((await storage.getFile(file.id)) ?? file, channel, token);
+    }
+
+    result.parts_short.sort((a, b) => a - b);
+    result.parts_lost.sort((a, b) => a - b);
+    return result;
+  }
+
+  /**
+   * Read every copy of a part, keeping the data of the first one that is
+   * still available
+   * Copies that turn out to be gone or corrupted are removed from `copies`
+   * and from the database. If the primary copy is gone, the first readable replica takes
+   * its place in file_parts
+   * @returns Part contents, or null if no copy is left
+   */
+  private async checkCopies(
+    file: File,
+    part: FilePart,
+    partName: string,
+    copies: PartCopy[],
+    token: string | undefined,
+    result: ReplicationResult
+  ): Promise<Buffer | null> {
+    let data: Buffer | null = null;
+    let primaryLost = false;
+
+    for (let index = 0; index < copies.length; ) {
+      const copy = copies[index];
+
+      try {
+        const chunk = await downloadService.readPart([copy], token, partName, part.sha256);
+        data = data ?? chunk;
+        index++;
+      } catch (error) {
+        if (!(error instanceof ChunkUnavailableError)) {
+          throw error;
+        }
+        if (copy.replicaId === null) {
+          primaryLost = true;
+        } else {
+          await storage.deleteFilePartReplica(copy.replicaId);
+        }
+        copies.splice(index, 1);
+        result.copies_removed++;
+      }
+    }
+
+    if (primaryLost && copies.length > 0) {
+      // Promote the first surviving replica to be the part's primary copy
+      const replica = copies[0];
+      // The part no longer points at the chunk it may have shared with other files
+      await storage.releaseSharedChunk(part.id);
+      await storage.updateFilePart(part.id, {
+        channel_id: replica.channel.id,
+        discord_message_id: replica.chunkId,
+        attachment_index: replica.attachmentIndex,
+      });
+      await storage.deleteFilePartReplica(replica.replicaId!);
+      if (part.part_number === 1) {
+        await storage.updateFile(file.id, { discord_message_id: replica.chunkId });
+      }
+      copies[0] = { ...replica, replicaId: null };
+    }
+    return data;
+  }
+}
+
+export const replicationService = new ReplicationService();
@@ -0,0 +1,309 @@
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { getChannelBackend } from './backend-registry';
+import { compressionService } from './compression-service';
+import { ChunkUnavailableError } from './storage-backend';
+import { TaskPool } from './task-pool';
+import { type Channel, type File, type ScrubResult } from '@shared/schema';
+
+// Files loaded from the database at a time while walking the files table
+const FILES_PER_BATCH = 100;
+
+export interface ScrubOptions {
+  token?: string; // Discord token for channels without a webhook
+  verifyChecksums?: boolean; // Download every chunk and compare its SHA-256, not just its size
+  concurrency?: number; // Chunks checked in parallel per file
+}
+
+export interface ScrubRunSummary {
+  started_at: string;
+  finished_at: string | null; // null while the run is in progress
+  checksums_verified: boolean;
+  files_checked: number;
+  healthy: number;
+  missing: number;
+  corrupt: number;
+  skipped: number; // Files in channels the run had no credentials for
+  errors: number; // Files that could not be checked, e.g. because Discord was unreachable
+}
+
+// One stored chunk and what it should look like
+interface ChunkCheck {
+  label: string;
+  channel: Channel | undefined;
+  chunkId: string;
+  attachmentIndex: number;
+  name: string;
+  size: number;
+  sha256: string | null;
+}
+
+/**
+ * Service for checking that stored files are still intact
+ * A scrub walks every completed file and looks up each of its chunks,
+ * including replicas and parity chunks, so lost or damaged chunks are found
+ * before someone tries to download the file. Only the latest result of each
+ * file is kept
+ */
+export class ScrubService {
+  private currentRun: ScrubRunSummary | null = null;
+  private lastRun: ScrubRunSummary | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Run scrubs on a fixed interval, replacing any earlier schedule
+   * @param intervalMs Time between runs; 0 stops scheduled runs
+   * @param getOptions Gives the options for each run as it starts
+   */
+  schedule(intervalMs: number, getOptions: () => ScrubOptions) {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (intervalMs <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      if (this.currentRun) {
+        return;
+      }
+      this.run(getOptions()).catch(error => console.error('Scheduled scrub failed:', error));
+    }, intervalMs);
+    // Scheduled scrubs should not keep the process alive on their own
+    this.timer.unref();
+  }
+
+  /**
+   * Get the run in progress, or the last finished one
+   */
+  getStatus(): { running: boolean; run: ScrubRunSummary | null } {
+    return {
+      running: this.currentRun !== null,
+      run: this.currentRun ?? this.lastRun,
+    };
+  }
+
+  /**
+   * Scrub every completed file
+   * @param options Credentials and how thoroughly to check each chunk
+   * @returns Summary of the run
+   */
+  async run(options: ScrubOptions = {}): Promise<ScrubRunSummary> {
+    if (this.currentRun) {
+      throw new Error('A scrub is already running');
+    }
+
+    const summary: ScrubRunSummary = {
+      started_at: new Date().toISOString(),
+      finished_at: null,
+      checksums_verified: !!options.verifyChecksums,
+      files_checked: 0,
+      healthy: 0,
+      missing: 0,
+      corrupt: 0,
+      skipped: 0,
+      errors: 0,
+    };
+    this.currentRun = summary;
+
+    try {
+      let lastId = 0;
+      for (let batch = await storage.listCompletedFiles(lastId, FILES_PER_BATCH);
+        batch.length > 0;
+        batch = await storage.listCompletedFiles(lastId, FILES_PER_BATCH)) {
+        for (const file of batch) {
+          lastId = file.id;
+          try {
+            const result = await this.scrubFile(file, options);
+            if (!result) {
+              summary.skipped++;
+              continue;
+            }
+            summary.files_checked++;
+            summary[result.status]++;
+          } catch (error) {
+            console.error(`Error scrubbing file ${file.id}:`, error);
+            summary.errors++;
+          }
+        }
+      }
+    } finally {
+      summary.finished_at = new Date().toISOString();
+      this.lastRun = summary;
+      this.currentRun = null;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Check every chunk of a file and record the result
+   * A chunk that is gone counts as missing; one with the wrong size, or the
+   * wrong SHA-256 when checksums are verified, counts as corrupt
+   * @param file File record to check
+   * @param options Credentials and how thoroughly to check each chunk
+   * @returns The saved result, or null if the file was skipped for lack of
+   * credentials or stored chunks
+   */
+  async scrubFile(file: File, options: ScrubOptions = {}): Promise<ScrubResult | null> {
+    const checks = await this.getChunkChecks(file);
+    const reachable = checks.every(check =>
+      !check.channel || check.channel.backend !== 'discord' || !!options.token || !!check.channel.webhook_url
+    );
+    if (checks.length === 0 || !reachable) {
+      return null;
+    }
+
+    const details: string[] = [];
+    let missing = 0;
+    let corrupt = 0;
+
+    const pool = new TaskPool(options.concurrency ?? 1);
+    for (const check of checks) {
+      await pool.add(async () => {
+        const problem = await this.checkChunk(check, options);
+        if (problem === 'missing') {
+          missing++;
+          details.push(`${check.label} is missing`);
+        } else if (problem) {
+          corrupt++;
+          details.push(`${check.label} ${problem}`);
+        }
+      });
+    }
+    await pool.drain();
+
+    return storage.saveScrubResult({
+      file_id: file.id,
+      status: corrupt > 0 ? 'corrupt' : missing > 0 ? 'missing' : 'healthy',
+      chunks_checked: checks.length,
+      chunks_missing: missing,
+      chunks_corrupt: corrupt,
+      checksums_verified: !!options.verifyChecksums,
+      details: details.sort(),
+    });
+  }
+
+  /**
+   * Check one chunk
+   * @returns 'missing', a description of the damage, or null if the chunk is fine
+   */
+  private async checkChunk(check: ChunkCheck, options: ScrubOptions): Promise<string | null> {
+    if (!check.channel) {
+      return 'missing';
+    }
+
+    const { backend, target } = getChannelBackend(check.channel, options.token);
+    try {
+      if (options.verifyChecksums && check.sha256) {
+        const data = await backend.getChunk(target, check.chunkId, check.name, check.attachmentIndex);
+        if (data.length !== check.size) {
+          return `is ${data.length} bytes instead of ${check.size}`;
+        }
+        if (crypto.createHash('sha256').update(data).digest('hex') !== check.sha256) {
+          return 'does not match its SHA-256 checksum';
+        }
+        return null;
+      }
+
+      const stored = await backend.statChunk(target, check.chunkId, check.name, check.attachmentIndex);
+      return stored.size === check.size ? null : `is ${stored.size} bytes instead of ${check.size}`;
+    } catch (error) {
+      if (error instanceof ChunkUnavailableError) {
+        return 'missing';
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List every stored chunk of a file: each copy of each part, then the
+   * parity chunks. A chunk whose channel is gone has no channel
+   */
+  private async getChunkChecks(file: File): Promise<ChunkCheck[]> {
+    const channels = new Map<number, Channel | undefined>();
+    const getChannel = async (channelId: number) => {
+      if (!channels.has(channelId)) {
+        channels.set(channelId, await storage.getChannel(channelId));
+      }
+      return channels.get(channelId);
+    };
+
+    const isLarge = file.type === 'large_chunked';
+    const parts = (await storage.getFileParts(file.id))
+      .filter(part => part.upload_complete && part.discord_message_id);
+
+    if (parts.length === 0) {
+      // Uploaded before parts were recorded; only a single chunk is known
+      if (isLarge || !file.discord_message_id) {
+        return [];
+      }
+      return [{
+        label: file.original_filename,
+        channel: await getChannel(file.channel_id),
+        chunkId: file.discord_message_id,
+        attachmentIndex: 0,
+        name: file.original_filename,
+        size: file.size_bytes,
+        sha256: file.sha256,
+      }];
+    }
+
+    const checks: ChunkCheck[] = [];
+    const partsById = new Map(parts.map(part => [part.id, part]));
+    const storedName = compressionService.getStoredName(file);
+    const partName = (partNumber: number) => isLarge ? `${storedName}.part${partNumber}` : storedName;
+
+    for (const part of parts) {
+      // A deduplicated part is stored under the name of the file that stored it first
+      const sharedChunk = part.shared_chunk_id ? await storage.getSharedChunk(part.shared_chunk_id) : undefined;
+      checks.push({
+        label: `Part ${part.part_number}`,
+        channel: await getChannel(part.channel_id ?? file.channel_id),
+        chunkId: part.discord_message_id!,
+        attachmentIndex: part.attachment_index,
+        name: sharedChunk?.filename ?? partName(part.part_number),
+        size: part.size_bytes,
+        sha256: part.sha256,
+      });
+    }
+
+    for (const replica of await storage.getFilePartReplicas(file.id)) {
+      const part = partsById.get(replica.part_id);
+      if (!part) {
+        continue;
+      }
+      const channel = await getChannel(replica.channel_id);
+      checks.push({
+        label: `Replica of part ${part.part_number} in ${channel?.name ?? `channel ${replica.channel_id}`}`,
+        channel,
+        chunkId: replica.chunk_id,
+        attachmentIndex: 0,
+        name: partName(part.part_number),
+        size: part.size_bytes,
+        sha256: part.sha256,
+      });
+    }
+
+    if (isLarge && file.parity_shards > 0) {
+      const parityParts = (await storage.getFileParityParts(file.id))
+        .filter(parityPart => parityPart.upload_complete && parityPart.discord_message_id);
+      for (const parityPart of parityParts) {
+        checks.push({
+          label: `Parity chunk ${parityPart.shard_index + 1} of stripe ${parityPart.stripe_number}`,
+          channel: await getChannel(parityPart.channel_id),
+          chunkId: parityPart.discord_message_id!,
+          attachmentIndex: 0,
+          name: `${storedName}.stripe${parityPart.stripe_number}.parity${parityPart.shard_index + 1}`,
+          size: parityPart.size_bytes,
+          sha256: parityPart.sha256,
+        });
+      }
+    }
+
+    return checks;
+  }
+}
+
+export const scrubService = new ScrubService();
@@ -0,0 +1,107 @@
+/**
+ * Thrown when a chunk, or the channel holding it, is gone or no longer
+ * readable, as opposed to a transient or credential failure. Readers with
+ * another copy of the chunk can fall back to it
+ */
+export class ChunkUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChunkUnavailableError';
+  }
+}
+
+export interface TransferOptions {
+  concurrency?: number; // Chunks transferred in parallel, defaults to one at a time
+}
+
+// Where a channel's chunks live and the credentials needed to reach them
+export interface BackendTarget {
+  channelId: string; // Discord channel ID, or the directory name for local channels
+  token?: string; // Discord token; ignored by the local backend
+  webhookUrl?: string; // Discord webhook registered for the channel
+}
+
+export interface StoredChunk {
+  id: string; // Chunk ID accepted by getChunk and deleteChunk
+  filename: string;
+  size: number;
+  timestamp?: string;
+  attachmentIndex?: number; // Position among the chunks sharing the ID
+}
+
+// A chunk to store with putChunks
+export interface ChunkUpload {
+  data: Buffer;
+  filename: string;
+  mimetype: string;
+}
+
+// Where putChunks stored a chunk
+export interface ChunkLocation {
+  chunkId: string;
+  attachmentIndex: number; // Position among the chunks stored under the same ID
+}
+
+export interface ChunkListOptions {
+  before?: string;
+  after?: string;
+  pageSize?: number;
+}
+
+export interface ChunkPage {
+  chunks: StoredChunk[];
+  nextCursor: string | null;
+}
+
+/**
+ * A place file chunks can be stored
+ * Chunk IDs are opaque to callers; they are what gets recorded in
+ * file_parts and handed back to read or delete the chunk later
+ */
+export interface StorageBackend {
+  // Most chunks a single putChunks call stores under one chunk ID
+  readonly maxChunksPerPut: number;
+
+  /**
+   * Store a chunk
+   * @returns ID of the stored chunk
+   */
+  putChunk(target: BackendTarget, data: Buffer, filename: string, mimetype: string): Promise<string>;
+
+  /**
+   * Store up to maxChunksPerPut chunks together
+   * @returns Where each chunk was stored, in the order given
+   */
+  putChunks(target: BackendTarget, chunks: ChunkUpload[]): Promise<ChunkLocation[]>;
+
+  /**
+   * Read a stored chunk
+   * @param filename Name the chunk was stored under, when a chunk ID can hold several
+   * @param attachmentIndex Position of the chunk under its ID; takes precedence over the name
+   */
+  getChunk(target: BackendTarget, chunkId: string, filename?: string, attachmentIndex?: number): Promise<Buffer>;
+
+  /**
+   * Look up a stored chunk's name and size without reading it
+   * @param filename Name the chunk was stored under, when a chunk ID can hold several
+   * @param attachmentIndex Position of the chunk under its ID; takes precedence over the name
+   */
+  statChunk(target: BackendTarget, chunkId: string, filename?: string, attachmentIndex?: number): Promise<StoredChunk>;
+
+  /**
+   * Delete a stored chunk; deleting a chunk that no longer exists succeeds
+   */
+  deleteChunk(target: BackendTarget, chunkId: string): Promise<void>;
+
+  /**
+   * List stored chunks, newest first unless paging forwards with `after`
+   */
+  list(target: BackendTarget, options?: ChunkListOptions): Promise<ChunkPage>;
+
+  /**
+   * Get the largest chunk the target accepts; chunks stored together by
+   * putChunks must fit in it between them
+   * @returns Size in bytes, or null if the target imposes no limit of its own
+   */
+  getMaxChunkSize(target: BackendTarget): Promise<number | null>;
+}
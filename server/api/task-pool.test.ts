@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskPool } from './task-pool';
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('TaskPool', () => {
+  it('keeps at most limit tasks in flight', async () => {
+    const pool = new TaskPool(2);
+    let running = 0;
+    let mostRunning = 0;
+    for (let index = 0; index < 6; index++) {
+      await pool.add(async () => {
+        running++;
+        mostRunning = Math.max(mostRunning, running);
+        await delay(5);
+        running--;
+      });
+    }
+    await pool.drain();
+
+    assert.equal(mostRunning, 2);
+    assert.equal(running, 0);
+  });
+
+  it('rethrows the first failure from drain', async () => {
+    const pool = new TaskPool(3);
+    await pool.add(async () => {
+      await delay(5);
+      throw new Error('second');
+    });
+    await pool.add(async () => {
+      throw new Error('first');
+    });
+
+    await assert.rejects(pool.drain(), /first/);
+  });
+
+  it('stops taking tasks once one has failed', async () => {
+    const pool = new TaskPool(1);
+    let started = 0;
+    await pool.add(async () => {
+      started++;
+      throw new Error('broken');
+    });
+
+    await assert.rejects(pool.add(async () => {
+      started++;
+    }), /broken/);
+    assert.equal(started, 1);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Runs async tasks with a bounded number in flight at once
+ * The first task failure is remembered and rethrown by the next add() or by
+ * drain(), so producers stop feeding the pool once something has gone wrong
+ */
+export class TaskPool {
+  private running = new Set<Promise<void>>();
+  private failed = false;
+  private error: unknown;
+
+  constructor(private limit: number) {
+    this.limit = Math.max(1, Math.floor(limit));
+  }
+
+  /**
+   * Waits for a free slot, then starts the task without waiting for it
+   * @param task Task to run
+   */
+  async add(task: () => Promise<void>): Promise<void> {
+    while (this.running.size >= this.limit) {
+      await Promise.race(this.running);
+    }
+    this.throwIfFailed();
+
+    const promise: Promise<void> = task()
+      .catch((error) => {
+        if (!this.failed) {
+          this.failed = true;
+          this.error = error;
+        }
+      })
+      .finally(() => this.running.delete(promise));
+    this.running.add(promise);
+  }
+
+  /**
+   * Waits for every started task to settle
+   */
+  async drain(): Promise<void> {
+    await Promise.all(this.running);
+    this.throwIfFailed();
+  }
+
+  private throwIfFailed() {
+    if (this.failed) {
+      throw this.error;
+    }
+  }
+}
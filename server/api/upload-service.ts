@@ -0,0 +1,687 @@
+import crypto from 'crypto';
+import { Readable, Transform, pipeline } from 'stream';
+import { storage } from '../storage';
+import { ReedSolomon } from './reed-solomon';
+import { TaskPool } from './task-pool';
+import { getChannelBackend } from './backend-registry';
+import { chunkCache } from './chunk-cache';
+import { compressionService } from './compression-service';
+import { dedupService } from './dedup-service';
+import { manifestService } from './manifest-service';
+import { type BackendTarget, type StorageBackend, type TransferOptions } from './storage-backend';
+import {
+  type Channel,
+  type File,
+  type FileParityPart,
+  type FilePart,
+  type FilePartReplica,
+  type SharedChunk,
+} from '@shared/schema';
+
+// Chunk size when the caller does not give one
+const DEFAULT_CHUNK_SIZE = 9 * 1024 * 1024; // 9MB in bytes
+
+export interface UploadOptions extends TransferOptions {
+  defaultChunkSize?: number; // Chunk size, unless a channel's limit is lower
+}
+
+// Lets the caller persist chunk progress and skip chunks stored by an earlier attempt
+interface PartTracker {
+  // Chunk ID of a part that is already stored, or null if it still needs uploading
+  storedChunkId(partNumber: number, size: number, sha256: string): string | null;
+  started(partNumber: number, size: number, sha256: string, channelId: number): Promise<void>;
+  completed(partNumber: number, chunkId: string, attachmentIndex: number, partName: string): Promise<void>;
+  // Points a started part at an identical chunk; false if the chunk is on its way out
+  reused(partNumber: number, chunk: SharedChunk): Promise<boolean>;
+  // Channels already holding a copy of a part, primary first
+  copyChannels(partNumber: number): number[];
+  replicated(partNumber: number, channelId: number, chunkId: string): Promise<void>;
+  // Same as the part methods, for the parity chunks of a stripe
+  storedParityChunkId(stripeNumber: number, shardIndex: number, size: number): string | null;
+  parityStarted(stripeNumber: number, shardIndex: number, size: number, sha256: string, channelId: number): Promise<void>;
+  parityCompleted(stripeNumber: number, shardIndex: number, chunkId: string): Promise<void>;
+}
+
+// How many extra chunks are stored to survive lost ones
+interface Redundancy {
+  copies: number; // Copies of every part, primary included
+  dataShards: number; // Parts per Reed-Solomon stripe
+  parityShards: number; // Parity chunks per stripe; 0 for none
+}
+
+// A channel that parts can be written to
+interface ChunkDestination {
+  channelId: number;
+  backend: StorageBackend;
+  target: BackendTarget;
+  maxChunkSize: number | null; // Most bytes one put accepts; null if the channel does not say
+}
+
+// A part waiting to be stored together with the next parts for its channel
+interface PendingPart {
+  partNumber: number;
+  data: Buffer;
+  sha256: string;
+  partName: string;
+}
+
+interface UploadResult {
+  chunkId: string; // First chunk of the upload
+  chunkIds: string[];
+  size: number;
+  sha256: string; // Hex SHA-256 of the whole stream
+  isLarge: boolean;
+  deduplicatedBytes: number; // Bytes of parts that pointed at chunks already stored
+}
+
+export interface UploadedFile extends File {
+  deduplicated_bytes: number; // Bytes this upload did not have to store
+  stored_bytes: number; // Size of the parts, after any compression
+}
+
+/**
+ * Service for uploading files into tracked file records
+ * Every chunk is recorded in file_parts as it completes, so an interrupted
+ * upload can be resumed from the parts that are still missing
+ */
+export class UploadService {
+  /**
+   * Upload a stream into an existing file record
+   * Parts that an earlier attempt already stored are skipped, as long as the
+   * re-sent data lines up with them. If the channel is part of a channel
+   * group, parts are striped round-robin across the group, and each part is
+   * copied to the next replication_factor - 1 channels after its own. Large
+   * files with parity_shards set also get Reed-Solomon parity chunks for
+   * every data_shards parts. The chunk size is capped by the limits of the
+   * channels written to, and is kept on the file so a resumed upload cuts
+   * its parts the same way. A part whose contents are already stored in
+   * the channel it is bound for points at that chunk instead of being
+   * stored again. A file with a compression codec is compressed as it
+   * arrives, before it is split into parts; the file's size and checksum
+   * stay those of the uncompressed stream. Finally the file's manifest is
+   * posted to its channel
+   * @param file File record to upload into
+   * @param channel Channel the file belongs to
+   * @param token Discord token; channels with a webhook can do without
+   * @param stream File contents
+   * @param options Transfer options such as chunk concurrency
+   * @returns The completed file record, and how many bytes were deduplicated
+   */
+  async uploadToFile(
+    file: File,
+    channel: Channel,
+    token: string | undefined,
+    stream: Readable,
+    options: UploadOptions = {}
+  ): Promise<UploadedFile> {
+    const destinations: ChunkDestination[] = [];
+    for (const stripeChannel of await this.getStripeChannels(channel)) {
+      const { backend, target } = getChannelBackend(stripeChannel, token);
+      destinations.push({
+        channelId: stripeChannel.id,
+        backend,
+        target,
+        maxChunkSize: await backend.getMaxChunkSize(target),
+      });
+    }
+    if (file.replication_factor > destinations.length) {
+      throw new Error(`Replicating ${file.replication_factor} times needs a channel group with at least ${file.replication_factor} channels`);
+    }
+
+    const existingParts = await storage.getFileParts(file.id);
+    let chunkSize = file.chunk_size;
+    if (existingParts.length === 0) {
+      chunkSize = this.getChunkSize(destinations, options.defaultChunkSize);
+      if (chunkSize !== file.chunk_size) {
+        await storage.updateFile(file.id, { chunk_size: chunkSize });
+      }
+    } else {
+      // Parts stored again replace what earlier attempts left in the cache
+      await chunkCache.invalidateFile(file.id);
+    }
+
+    const existingReplicas = await storage.getFilePartReplicas(file.id);
+    const existingParity = file.parity_shards > 0 ? await storage.getFileParityParts(file.id) : [];
+    const tracker = this.createPartTracker(file, existingParts, existingReplicas, existingParity);
+
+    // Compressed files are measured and hashed before compression
+    let originalSize = 0;
+    const originalHash = crypto.createHash('sha256');
+    const source = file.compression
+      ? pipeline(
+        stream,
+        new Transform({
+          transform(data: Buffer, _encoding, callback) {
+            originalSize += data.length;
+            originalHash.update(data);
+            callback(null, data);
+          },
+        }),
+        compressionService.createCompressor(file.compression),
+        // Failures surface while the compressed stream is read
+        () => undefined
+      )
+      : stream;
+
+    const result = await this.uploadStream(
+      destinations,
+      source,
+      chunkSize,
+      compressionService.getStoredName(file),
+      compressionService.getStoredType(file),
+      tracker,
+      {
+        copies: file.replication_factor,
+        dataShards: file.data_shards,
+        parityShards: file.parity_shards,
+      },
+      options
+    );
+
+    const uploaded: File = {
+      ...file,
+      chunk_size: chunkSize,
+      size_bytes: file.compression ? originalSize : result.size,
+      type: result.isLarge ? 'large_chunked' : 'normal',
+      sha256: file.compression ? originalHash.digest('hex') : result.sha256,
+      discord_message_id: result.chunkId,
+    };
+    await storage.updateFile(file.id, {
+      size_bytes: uploaded.size_bytes,
+      type: uploaded.type,
+      sha256: uploaded.sha256,
+    });
+
+    // The manifest is posted before the file counts as complete, so if
+    // posting it fails, resuming the upload posts it again
+    const manifestId = await manifestService.publish(uploaded, channel, token);
+    await storage.updateFileUploadComplete(file.id, result.chunkId);
+
+    return {
+      ...uploaded,
+      manifest_message_id: manifestId,
+      upload_complete: true,
+      deduplicated_bytes: result.deduplicatedBytes,
+      stored_bytes: result.size,
+    };
+  }
+
+  /**
+   * Upload an in-memory file into an existing file record
+   * @param file File record to upload into
+   * @param channel Channel the file belongs to
+   * @param token Discord token; channels with a webhook can do without
+   * @param upload File received by multer
+   * @param options Transfer options such as chunk concurrency
+   * @returns The completed file record, and how many bytes were deduplicated
+   */
+  async uploadBufferToFile(
+    file: File,
+    channel: Channel,
+    token: string | undefined,
+    upload: Express.Multer.File,
+    options: UploadOptions = {}
+  ): Promise<UploadedFile> {
+    return this.uploadToFile(file, channel, token, Readable.from(upload.buffer), options);
+  }
+
+  /**
+   * Get the first part number of a file that has not been stored yet
+   * @param fileId File ID
+   * @returns Part number the upload would resume from
+   */
+  async getFirstMissingPart(fileId: number): Promise<number> {
+    const parts = await storage.getFileParts(fileId);
+    const stored = new Set(parts.filter(part => part.upload_complete).map(part => part.part_number));
+
+    let partNumber = 1;
+    while (stored.has(partNumber)) {
+      partNumber++;
+    }
+    return partNumber;
+  }
+
+  /**
+   * Get the channels a file uploaded to a channel is striped across
+   * The upload's own channel comes first, so single-part files land there
+   * @param channel Channel the file was uploaded to
+   */
+  async getStripeChannels(channel: Channel): Promise<Channel[]> {
+    if (channel.group_id === null) {
+      return [channel];
+    }
+
+    const members = await storage.getChannelsByGroup(channel.group_id);
+    const index = members.findIndex(member => member.id === channel.id);
+    if (index < 0) {
+      return [channel];
+    }
+    return [...members.slice(index), ...members.slice(0, index)];
+  }
+
+  /**
+   * Get the chunk size for an upload to a set of channels
+   * Channels that take more than the default in one put get several parts
+   * per put instead of bigger parts
+   * @param destinations Channels the parts will be written to
+   * @param defaultChunkSize Largest chunk size to use
+   * @returns The smallest of the default and the limits reported, so every
+   * part fits every channel
+   */
+  private getChunkSize(destinations: ChunkDestination[], defaultChunkSize: number = DEFAULT_CHUNK_SIZE): number {
+    const limits = destinations
+      .map(destination => destination.maxChunkSize)
+      .filter((limit): limit is number => limit !== null);
+    return Math.min(defaultChunkSize, ...limits);
+  }
+
+  /**
+   * Upload a stream to storage backends as it arrives
+   * The stream is sliced into chunkSize pieces; a stream that fits in a
+   * single chunk is stored under its own name, anything larger as name.partN.
+   * Every part is hashed with SHA-256 before it is sent, as is the stream.
+   * Part N goes to destination (N - 1) mod count, with up to `concurrency`
+   * puts in flight per destination. Parts bound for the same destination are
+   * stored together, as many as the backend takes in one put and fit in its
+   * size limit, like the attachments of one Discord message. Replicas of
+   * part N go to the destinations that follow it, until the part has
+   * `copies` copies. Before a part is stored, an identical chunk already in
+   * its destination is looked for; if there is one, the part points at it.
+   * With parity, every stripe of `dataShards` parts is held in memory until
+   * its parity chunks are computed; they go to the destinations after the
+   * stripe's last part as if they were the parts that follow it
+   */
+  private async uploadStream(
+    destinations: ChunkDestination[],
+    stream: Readable,
+    chunkSize: number,
+    filename: string,
+    mimetype: string,
+    parts: PartTracker,
+    redundancy: Redundancy,
+    options: TransferOptions
+  ): Promise<UploadResult> {
+    const chunks = this.readChunks(stream, chunkSize);
+    const pool = new TaskPool((options.concurrency ?? 1) * destinations.length);
+    const { copies, dataShards, parityShards } = redundancy;
+    const fileHash = crypto.createHash('sha256');
+    let deduplicatedBytes = 0;
+
+    // Points a part at an identical chunk already in its destination;
+    // returns the chunk's ID, or null if the part has to be stored
+    const reusePart = async (partNumber: number, data: Buffer, sha256: string): Promise<string | null> => {
+      const destination = destinations[(partNumber - 1) % destinations.length];
+      const chunk = await dedupService.findChunk(destination, sha256, data.length);
+      if (!chunk) {
+        return null;
+      }
+      await parts.started(partNumber, data.length, sha256, destination.channelId);
+      if (!(await parts.reused(partNumber, chunk))) {
+        return null;
+      }
+      deduplicatedBytes += data.length;
+      return chunk.chunk_id;
+    };
+
+    // Writes any copies of a part that are still missing
+    const replicatePart = async (partNumber: number, data: Buffer, partName: string, partType: string) => {
+      const held = parts.copyChannels(partNumber);
+      for (let offset = 1; offset < destinations.length && held.length < copies; offset++) {
+        const destination = destinations[(partNumber - 1 + offset) % destinations.length];
+        if (held.indexOf(destination.channelId) >= 0) {
+          continue;
+        }
+        const chunkId = await destination.backend.putChunk(destination.target, data, partName, partType);
+        await parts.replicated(partNumber, destination.channelId, chunkId);
+        held.push(destination.channelId);
+      }
+    };
+
+    // Uploads one part unless an earlier attempt already stored it
+    const sendPart = async (partNumber: number, data: Buffer, partName: string, partType: string): Promise<string> => {
+      const sha256 = crypto.createHash('sha256').update(data).digest('hex');
+      let chunkId = parts.storedChunkId(partNumber, data.length, sha256) ?? await reusePart(partNumber, data, sha256);
+      if (!chunkId) {
+        const destination = destinations[(partNumber - 1) % destinations.length];
+        await parts.started(partNumber, data.length, sha256, destination.channelId);
+        chunkId = await destination.backend.putChunk(destination.target, data, partName, partType);
+        await parts.completed(partNumber, chunkId, 0, partName);
+      }
+
+      await replicatePart(partNumber, data, partName, partType);
+      return chunkId;
+    };
+
+    // Uploads the parity chunks of a stripe that are not stored yet
+    const sendParity = async (stripeNumber: number, stripe: Buffer[]) => {
+      const shardSize = Math.max(...stripe.map(data => data.length));
+      const missing: number[] = [];
+      for (let shardIndex = 0; shardIndex < parityShards; shardIndex++) {
+        if (!parts.storedParityChunkId(stripeNumber, shardIndex, shardSize)) {
+          missing.push(shardIndex);
+        }
+      }
+      if (missing.length === 0) {
+        return;
+      }
+
+      const parity = new ReedSolomon(dataShards, parityShards).encode(stripe, shardSize);
+      for (const shardIndex of missing) {
+        const destination = destinations[(stripeNumber * dataShards + shardIndex) % destinations.length];
+        const sha256 = crypto.createHash('sha256').update(parity[shardIndex]).digest('hex');
+        await parts.parityStarted(stripeNumber, shardIndex, shardSize, sha256, destination.channelId);
+        const chunkId = await destination.backend.putChunk(
+          destination.target,
+          parity[shardIndex],
+          `${filename}.stripe${stripeNumber}.parity${shardIndex + 1}`,
+          'application/octet-stream'
+        );
+        await parts.parityCompleted(stripeNumber, shardIndex, chunkId);
+      }
+    };
+
+    try {
+      // Read one chunk ahead to find out whether the file needs splitting
+      const first = await chunks.next();
+      const second = first.done ? first : await chunks.next();
+
+      if (second.done) {
+        // Small file - upload directly
+        const data = first.done ? Buffer.alloc(0) : first.value;
+        const chunkId = await sendPart(1, data, filename, mimetype);
+        const sha256 = fileHash.update(data).digest('hex');
+        return { chunkId, chunkIds: [chunkId], size: data.length, sha256, isLarge: false, deduplicatedBytes };
+      }
+
+      // Large file - upload chunks as soon as they have been read, or as
+      // soon as no more fit with them; pacing is left to the backend
+      const chunkIds: string[] = [];
+      let partCount = 0;
+      let size = 0;
+      let stripe: Buffer[] = [];
+
+      // Parts waiting to be stored together, per destination
+      const pending: PendingPart[][] = destinations.map(() => []);
+
+      // Stores the parts waiting for a destination in a single put, then
+      // writes their replicas
+      const flushParts = (destinationIndex: number) => {
+        const batch = pending[destinationIndex];
+        pending[destinationIndex] = [];
+        const destination = destinations[destinationIndex];
+
+        return pool.add(async () => {
+          for (const part of batch) {
+            await parts.started(part.partNumber, part.data.length, part.sha256, destination.channelId);
+          }
+          const locations = await destination.backend.putChunks(destination.target, batch.map(part => ({
+            data: part.data,
+            filename: part.partName,
+            mimetype: 'application/octet-stream',
+          })));
+          for (let index = 0; index < batch.length; index++) {
+            const { chunkId, attachmentIndex } = locations[index];
+            await parts.completed(batch[index].partNumber, chunkId, attachmentIndex, batch[index].partName);
+            chunkIds[batch[index].partNumber - 1] = chunkId;
+          }
+          for (const part of batch) {
+            await replicatePart(part.partNumber, part.data, part.partName, 'application/octet-stream');
+          }
+        });
+      };
+
+      // Queues the parity of the parts collected so far as the next stripe
+      const closeStripe = () => {
+        const stripeNumber = Math.ceil(partCount / dataShards);
+        const stripeParts = stripe;
+        stripe = [];
+        return pool.add(() => sendParity(stripeNumber, stripeParts));
+      };
+
+      const uploadPart = async (data: Buffer) => {
+        const partNumber = ++partCount;
+        const partName = `${filename}.part${partNumber}`;
+        size += data.length;
+        fileHash.update(data);
+
+        const sha256 = crypto.createHash('sha256').update(data).digest('hex');
+        const storedChunkId = parts.storedChunkId(partNumber, data.length, sha256)
+          ?? await reusePart(partNumber, data, sha256);
+        if (storedChunkId) {
+          chunkIds[partNumber - 1] = storedChunkId;
+          await pool.add(() => replicatePart(partNumber, data, partName, 'application/octet-stream'));
+        } else {
+          const destinationIndex = (partNumber - 1) % destinations.length;
+          const { backend, maxChunkSize } = destinations[destinationIndex];
+          const waitingBytes = pending[destinationIndex].reduce((total, part) => total + part.data.length, 0);
+          if (pending[destinationIndex].length > 0 && waitingBytes + data.length > (maxChunkSize ?? chunkSize)) {
+            await flushParts(destinationIndex);
+          }
+          pending[destinationIndex].push({ partNumber, data, sha256, partName });
+          if (pending[destinationIndex].length >= backend.maxChunksPerPut) {
+            await flushParts(destinationIndex);
+          }
+        }
+
+        if (parityShards > 0) {
+          stripe.push(data);
+          if (stripe.length === dataShards) {
+            await closeStripe();
+          }
+        }
+      };
+
+      await uploadPart(first.value as Buffer);
+      await uploadPart(second.value);
+      for (let next = await chunks.next(); !next.done; next = await chunks.next()) {
+        await uploadPart(next.value);
+      }
+      for (let destinationIndex = 0; destinationIndex < destinations.length; destinationIndex++) {
+        if (pending[destinationIndex].length > 0) {
+          await flushParts(destinationIndex);
+        }
+      }
+      if (stripe.length > 0) {
+        // The last stripe is short; its missing parts count as all zeros
+        await closeStripe();
+      }
+      await pool.drain();
+
+      return { chunkId: chunkIds[0], chunkIds, size, sha256: fileHash.digest('hex'), isLarge: true, deduplicatedBytes };
+    } finally {
+      // Release the source stream if we stopped reading early, and let any
+      // parts still in flight settle before reporting back
+      await chunks.return(undefined);
+      await pool.drain().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Reads a stream as a sequence of buffers of exactly chunkSize bytes
+   * (the last one may be shorter), holding at most one chunk in memory
+   */
+  private async *readChunks(stream: Readable, chunkSize: number): AsyncGenerator<Buffer> {
+    let pending: Buffer[] = [];
+    let pendingLength = 0;
+
+    for await (const data of stream) {
+      let buffer: Buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+
+      while (pendingLength + buffer.length >= chunkSize) {
+        const take = chunkSize - pendingLength;
+        pending.push(buffer.subarray(0, take));
+        yield Buffer.concat(pending);
+        pending = [];
+        pendingLength = 0;
+        buffer = buffer.subarray(take);
+      }
+
+      if (buffer.length > 0) {
+        pending.push(buffer);
+        pendingLength += buffer.length;
+      }
+    }
+
+    if (pendingLength > 0) {
+      yield Buffer.concat(pending);
+    }
+  }
+
+  /**
+   * Build a tracker that persists part progress to file_parts
+   * @param file File record
+   * @param existingParts Parts recorded by earlier attempts
+   * @param existingReplicas Replicas recorded by earlier attempts
+   * @param existingParity Parity chunks recorded by earlier attempts
+   */
+  private createPartTracker(
+    file: File,
+    existingParts: FilePart[],
+    existingReplicas: FilePartReplica[],
+    existingParity: FileParityPart[]
+  ): PartTracker {
+    const parts = new Map(existingParts.map(part => [part.part_number, part]));
+    const parityKey = (stripeNumber: number, shardIndex: number) => `${stripeNumber}:${shardIndex}`;
+    const parity = new Map(existingParity.map(parityPart => [
+      parityKey(parityPart.stripe_number, parityPart.shard_index),
+      parityPart,
+    ]));
+    const replicaChannels = new Map<number, number[]>();
+    for (const replica of existingReplicas) {
+      replicaChannels.set(replica.part_id, [...(replicaChannels.get(replica.part_id) ?? []), replica.channel_id]);
+    }
+
+    return {
+      storedChunkId: (partNumber, size, sha256) => {
+        const part = parts.get(partNumber);
+        if (!part?.upload_complete || !part.discord_message_id) {
+          return null;
+        }
+        if (part.size_bytes !== size || (part.sha256 !== null && part.sha256 !== sha256)) {
+          throw new Error(`Part ${partNumber} does not match the interrupted upload; was a different file sent?`);
+        }
+        return part.discord_message_id;
+      },
+
+      started: async (partNumber, size, sha256, channelId) => {
+        const part = parts.get(partNumber);
+        if (part) {
+          // Retrying a part that failed last time
+          if (part.size_bytes !== size || part.sha256 !== sha256 || part.channel_id !== channelId) {
+            parts.set(partNumber, await storage.updateFilePart(part.id, { size_bytes: size, sha256, channel_id: channelId }));
+          }
+          return;
+        }
+
+        parts.set(partNumber, await storage.createFilePart({
+          file_id: file.id,
+          part_number: partNumber,
+          size_bytes: size,
+          upload_complete: false,
+          channel_id: channelId,
+          sha256,
+        }));
+      },
+
+      completed: async (partNumber, chunkId, attachmentIndex, partName) => {
+        const part = parts.get(partNumber);
+        if (part) {
+          await storage.updateFilePartUploadComplete(part.id, chunkId, attachmentIndex);
+          parts.set(partNumber, {
+            ...part,
+            upload_complete: true,
+            discord_message_id: chunkId,
+            attachment_index: attachmentIndex,
+          });
+          // Lets later uploads of the same contents point at this chunk
+          if (part.sha256) {
+            const sharedChunk = await storage.createSharedChunk(part.id, {
+              channel_id: part.channel_id ?? file.channel_id,
+              sha256: part.sha256,
+              size_bytes: part.size_bytes,
+              chunk_id: chunkId,
+              attachment_index: attachmentIndex,
+              filename: partName,
+            });
+            parts.set(partNumber, { ...parts.get(partNumber)!, shared_chunk_id: sharedChunk.id });
+          }
+        }
+      },
+
+      reused: async (partNumber, chunk) => {
+        const part = parts.get(partNumber);
+        if (!part || !(await storage.reuseSharedChunk(part.id, chunk.id))) {
+          return false;
+        }
+        parts.set(partNumber, {
+          ...part,
+          upload_complete: true,
+          channel_id: chunk.channel_id,
+          discord_message_id: chunk.chunk_id,
+          attachment_index: chunk.attachment_index,
+          shared_chunk_id: chunk.id,
+        });
+        return true;
+      },
+
+      copyChannels: (partNumber) => {
+        const part = parts.get(partNumber);
+        if (!part) {
+          return [];
+        }
+        return [part.channel_id ?? file.channel_id, ...(replicaChannels.get(part.id) ?? [])];
+      },
+
+      replicated: async (partNumber, channelId, chunkId) => {
+        const part = parts.get(partNumber);
+        if (part) {
+          await storage.createFilePartReplica({ part_id: part.id, channel_id: channelId, chunk_id: chunkId });
+          replicaChannels.set(part.id, [...(replicaChannels.get(part.id) ?? []), channelId]);
+        }
+      },
+
+      storedParityChunkId: (stripeNumber, shardIndex, size) => {
+        const parityPart = parity.get(parityKey(stripeNumber, shardIndex));
+        if (!parityPart?.upload_complete || !parityPart.discord_message_id) {
+          return null;
+        }
+        if (parityPart.size_bytes !== size) {
+          throw new Error(`Stripe ${stripeNumber} does not match the interrupted upload; was a different file sent?`);
+        }
+        return parityPart.discord_message_id;
+      },
+
+      parityStarted: async (stripeNumber, shardIndex, size, sha256, channelId) => {
+        const key = parityKey(stripeNumber, shardIndex);
+        const parityPart = parity.get(key);
+        if (parityPart) {
+          if (parityPart.size_bytes !== size || parityPart.sha256 !== sha256 || parityPart.channel_id !== channelId) {
+            parity.set(key, await storage.updateFileParityPart(parityPart.id, { size_bytes: size, sha256, channel_id: channelId }));
+          }
+          return;
+        }
+
+        parity.set(key, await storage.createFileParityPart({
+          file_id: file.id,
+          stripe_number: stripeNumber,
+          shard_index: shardIndex,
+          size_bytes: size,
+          upload_complete: false,
+          channel_id: channelId,
+          sha256,
+        }));
+      },
+
+      parityCompleted: async (stripeNumber, shardIndex, chunkId) => {
+        const key = parityKey(stripeNumber, shardIndex);
+        const parityPart = parity.get(key);
+        if (parityPart) {
+          await storage.updateFileParityPartUploadComplete(parityPart.id, chunkId);
+          parity.set(key, { ...parityPart, upload_complete: true, discord_message_id: chunkId });
+        }
+      },
+    };
+  }
+}
+
+export const uploadService = new UploadService();
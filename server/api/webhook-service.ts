@@ -0,0 +1,97 @@
+import { storage } from '../storage';
+import { discordService } from './discord-service';
+import { type Channel } from '@shared/schema';
+
+// What lets a caller replace the webhook a channel already has
+export interface WebhookCredentials {
+  token?: string; // Discord token that can read the channel
+  currentWebhookUrl?: string; // The channel's current webhook
+}
+
+/**
+ * Thrown when a webhook would replace the one a channel already has,
+ * without proof of access to the channel
+ */
+export class WebhookConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookConflictError';
+  }
+}
+
+/**
+ * Service for channels that are written through a Discord webhook
+ * A webhook URL is a credential for exactly one channel, so users can be
+ * handed one instead of a bot token
+ */
+export class WebhookService {
+  /**
+   * Register a webhook as the upload target of the channel it posts to
+   * The webhook is looked up on Discord every time, so a deleted or mistyped
+   * webhook is rejected before anything is stored. A channel's webhook is
+   * only replaced by someone who holds it, or a token that can read the channel
+   * @param webhookUrl Discord webhook URL
+   * @param name Name for the channel if it has not been seen before
+   * @param credentials Proof of access to the channel, to replace its current webhook
+   * @returns The webhook's channel record
+   * @throws WebhookConflictError if the channel has another webhook that may not be replaced
+   */
+  async registerWebhook(webhookUrl: string, name?: string, credentials: WebhookCredentials = {}): Promise<Channel> {
+    const webhook = await discordService.getWebhook(webhookUrl);
+    const url = webhookUrl.trim();
+
+    const channel = await storage.getChannelByDiscordId(webhook.channel_id);
+    if (!channel) {
+      return storage.createChannel({
+        discord_channel_id: webhook.channel_id,
+        name: name || webhook.name || `Channel ${webhook.channel_id}`,
+        backend: 'discord',
+        webhook_url: url,
+      });
+    }
+
+    if (channel.backend !== 'discord') {
+      throw new Error(`Channel ${webhook.channel_id} does not store its files on Discord`);
+    }
+
+    await storage.updateChannelLastUsed(channel.id);
+    if (channel.webhook_url === url) {
+      return channel;
+    }
+    if (channel.webhook_url && !(await this.canReplaceWebhook(channel, credentials))) {
+      throw new WebhookConflictError(
+        `Channel ${channel.name} already has a webhook; its current webhook URL or a token for the channel is needed to replace it`
+      );
+    }
+    return storage.updateChannel(channel.id, { webhook_url: url });
+  }
+
+  private async canReplaceWebhook(channel: Channel, credentials: WebhookCredentials): Promise<boolean> {
+    if (credentials.currentWebhookUrl?.trim() === channel.webhook_url) {
+      return true;
+    }
+    if (!credentials.token) {
+      return false;
+    }
+
+    try {
+      await discordService.fetchMessages(channel.discord_channel_id, credentials.token, { limit: 1 });
+      return true;
+    } catch (error) {
+      console.warn(`Token cannot read channel ${channel.discord_channel_id}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Find the channel of a webhook registered earlier
+   * Nothing is looked up on Discord or written, so reads can use it freely
+   * @param webhookUrl Discord webhook URL
+   * @returns The webhook's channel record, or undefined if it was never registered
+   */
+  async findWebhookChannel(webhookUrl: string): Promise<Channel | undefined> {
+    return storage.getChannelByWebhookUrl(webhookUrl.trim());
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -63,7 +63,8 @@ function getDeviceName(req: Request): string {
   return deviceName;
 }
 
-export function setupAuth(app: Express) {
+// Sessions have to be set up before any route that reads req.user
+export function setupSession(app: Express) {
   const sessionStore = new PostgresSessionStore({ 
     pool, 
     createTableIfMissing: true,
@@ -114,7 +115,9 @@ export function setupAuth(app: Express) {
       return done(null, null);
     }
   });
+}
 
+export function setupAuth(app: Express) {
   // Auto-user creation middleware based on IP
   app.use(async (req: Request, res: Response, next: NextFunction) => {
     // Skip if user is already authenticated
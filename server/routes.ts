@@ -2,13 +2,29 @@ import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import multer from "multer";
+import busboy from "busboy";
 import path from "path";
 import fs from "fs";
+import { PassThrough, Readable, pipeline } from "stream";
 import { discordService } from "./api/discord-service";
 import { credentialService } from "./api/credential-service";
 import { profileService } from "./api/profile-service";
 import { batchService } from "./api/batch-service";
 import { encryptionService } from "./api/encryption-service";
+import { manifestService } from "./api/manifest-service";
+import { uploadService } from "./api/upload-service";
+import { downloadService } from "./api/download-service";
+import { type ByteRange } from "./api/byte-range";
+import { getChannelBackend } from "./api/backend-registry";
+import { webhookService, WebhookConflictError } from "./api/webhook-service";
+import { replicationService } from "./api/replication-service";
+import { scrubService } from "./api/scrub-service";
+import { recoveryService } from "./api/recovery-service";
+import { importService } from "./api/import-service";
+import { deletionService } from "./api/deletion-service";
+import { gcService } from "./api/gc-service";
+import { chunkCache } from "./api/chunk-cache";
+import { compressionService } from "./api/compression-service";
 import { hashPassword } from "./auth";
 import { z } from "zod";
 import { WebSocketServer } from 'ws';
@@ -18,25 +34,51 @@ import {
   files, 
   fileOperationsHistory, 
   users, 
-  fileParts, 
+  scrubStatusEnum, 
   userProfiles, 
   savedCredentials, 
-  fileEncryptionKeys, 
-  batchOperations 
+  batchOperations,
+  storageBackendEnum,
+  compressionCodecEnum,
+  type Channel,
+  type File as FileRecord
 } from "@shared/schema";
 import { eq, desc, sql } from "drizzle-orm";
-import { setupAuth } from "./auth";
+import { setupAuth, setupSession } from "./auth";
 
 // App settings
 const appSettings = {
   maxFileSize: 100 * 1024 * 1024, // 100MB
-  defaultChunkSize: 9 * 1024 * 1024, // 9MB
+  defaultChunkSize: 9 * 1024 * 1024, // 9MB; lowered for channels with a smaller upload limit
   allowedFileTypes: '*',
   serverVersion: '1.0.0',
   maintenanceMode: false,
-  registrationEnabled: true
+  registrationEnabled: true,
+  transferConcurrency: 3, // Chunks uploaded or downloaded in parallel per file
+  replicationFactor: 1, // Copies of each chunk kept for new uploads
+  scrubIntervalHours: 0, // Hours between integrity scrubs; 0 disables scheduled scrubs
+  scrubVerifyChecksums: false, // Whether scheduled scrubs download chunks to check their SHA-256
+  gcStaleUploadHours: 24, // Age at which garbage collection treats unfinished uploads and unreferenced chunks as leftovers
+  chunkCacheSize: 1024 * 1024 * 1024, // 1GB of downloaded chunks kept on disk; 0 disables the cache
 };
 
+// Upper bound for the per-request concurrency override
+const MAX_TRANSFER_CONCURRENCY = 10;
+
+// Upper bound for the number of copies kept of each chunk
+const MAX_REPLICATION_FACTOR = 5;
+
+// Longest allowed interval between scheduled scrubs, one week
+const MAX_SCRUB_INTERVAL_HOURS = 7 * 24;
+
+// Longest allowed age for garbage collection to wait for, thirty days
+const MAX_GC_STALE_UPLOAD_HOURS = 30 * 24;
+
+// Bounds for Reed-Solomon stripes; a whole stripe of data parts is held in
+// memory while its parity is computed
+const MAX_DATA_SHARDS = 10;
+const MAX_PARITY_SHARDS = 4;
+
 // Dynamic multer configuration that uses the current maxFileSize setting
 function getMulterUpload() {
   return multer({
@@ -81,23 +123,348 @@ const upload = {
   }
 };
 
+// Error raised while a streamed request body is still being read
+class UploadError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// Status for an error that ended an upload; anything unexpected is a 500
+function getUploadErrorStatus(error: unknown): number {
+  if (error instanceof UploadError) {
+    return error.status;
+  }
+  return error instanceof WebhookConflictError ? 403 : 500;
+}
+
+interface ReceivedFile {
+  fields: Record<string, string>;
+  stream: Readable;
+  filename: string;
+  mimetype: string;
+}
+
+// Parses a multipart request and resolves as soon as the file part starts
+// arriving, so the caller can stream it onward instead of buffering it.
+// Only form fields sent before the file part are included in `fields`.
+function receiveFile(req: Request, fieldName: string): Promise<ReceivedFile | null> {
+  return new Promise((resolve, reject) => {
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({
+        headers: req.headers,
+        limits: { fileSize: appSettings.maxFileSize, files: 1 },
+      });
+    } catch (error) {
+      return reject(new UploadError("Expected a multipart/form-data request", 400));
+    }
+
+    const fields: Record<string, string> = {};
+    let received = false;
+
+    parser.on('field', (name, value) => {
+      fields[name] = value;
+    });
+
+    parser.on('file', (name, file, info) => {
+      if (name !== fieldName || received) {
+        file.resume();
+        return;
+      }
+      received = true;
+
+      const stream = new PassThrough();
+      file.on('limit', () => {
+        stream.destroy(new UploadError(
+          `File too large. Maximum size is ${Math.round(appSettings.maxFileSize / (1024 * 1024))}MB.`,
+          413
+        ));
+        file.resume();
+      });
+      parser.on('error', (error) => stream.destroy(error as Error));
+      file.pipe(stream);
+
+      resolve({
+        fields: { ...fields },
+        stream,
+        filename: info.filename,
+        mimetype: info.mimeType || 'application/octet-stream',
+      });
+    });
+
+    parser.on('close', () => {
+      if (!received) resolve(null);
+    });
+
+    parser.on('error', (error) => {
+      if (!received) reject(error);
+    });
+
+    req.pipe(parser);
+  });
+}
+
+// ID of the signed-in user; never taken from the request body, which anyone can fill in
+function getSessionUserId(req: Request): number | undefined {
+  return req.isAuthenticated() ? req.user.id : undefined;
+}
+
+// Discord channels need a token, or a webhook URL that identifies the channel
+function hasChannelCredentials(channel: Channel, token?: string, webhookUrl?: string): boolean {
+  return channel.backend !== "discord" || !!token || !!webhookUrl;
+}
+
+// Every copy of a chunk goes to a different channel of the channel's group
+async function getReplicationError(channel: Channel | undefined, replicationFactor: number): Promise<string | null> {
+  const channelCount = channel ? (await uploadService.getStripeChannels(channel)).length : 1;
+  if (replicationFactor > channelCount) {
+    return `Replicating ${replicationFactor} times needs a channel group with at least ${replicationFactor} channels`;
+  }
+  return null;
+}
+
+// (Re)start scheduled scrubs from the current settings; scheduled runs can
+// only reach token-only Discord channels if SCRUB_DISCORD_TOKEN is set
+function scheduleScrubs() {
+  scrubService.schedule(appSettings.scrubIntervalHours * 60 * 60 * 1000, () => ({
+    token: process.env.SCRUB_DISCORD_TOKEN,
+    verifyChecksums: appSettings.scrubVerifyChecksums,
+    concurrency: appSettings.transferConcurrency,
+  }));
+}
+
+// What the response says about a file being streamed to it
+interface DownloadDetails {
+  filename: string;
+  mimeType: string;
+  size: number;
+  sha256?: string | null;
+}
+
+// Stream a file to the response; a single byte range in the Range header
+// gets a 206 with just those bytes, so players can seek and browsers can resume
+async function sendFileStream(
+  req: Request,
+  res: Response,
+  details: DownloadDetails,
+  read: (range?: ByteRange) => AsyncGenerator<Buffer>
+) {
+  const size = details.size;
+  const ranges = req.headers.range ? req.range(size) : undefined;
+  if (ranges === -1) {
+    res.setHeader("Content-Range", `bytes */${size}`);
+    return res.status(416).json({ message: "Requested range is not satisfiable" });
+  }
+  // Malformed and multi-range requests get the whole file
+  const range = Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1 ? ranges[0] : undefined;
+  
+  // Read the first part before answering, so a file that cannot be read
+  // still gets an error status instead of a truncated body
+  const chunks = read(range);
+  const first = await chunks.next();
+  
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("Content-Disposition", `attachment; filename=${details.filename}`);
+  res.setHeader("Content-Type", details.mimeType);
+  if (range) {
+    res.status(206);
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader("Content-Length", range.end - range.start + 1);
+  } else {
+    res.status(200);
+    res.setHeader("Content-Length", size);
+    // Lets clients check the download end to end
+    if (details.sha256) {
+      res.setHeader("X-Content-SHA256", details.sha256);
+    }
+  }
+  
+  const body = Readable.from((async function* () {
+    if (!first.done) {
+      yield first.value;
+    }
+    yield* chunks;
+  })());
+  // Headers are gone by the time a later part fails, so the response is cut short instead
+  pipeline(body, res, error => {
+    if (error) {
+      console.error(`Error streaming "${details.filename}":`, error);
+    }
+  });
+}
+
+// Stream a tracked file to the response, fetching its chunks by ID
+function sendTrackedFile(
+  req: Request,
+  res: Response,
+  file: FileRecord,
+  channel: Channel,
+  token: string | undefined,
+  options: { concurrency?: number }
+) {
+  return sendFileStream(req, res, {
+    filename: file.original_filename,
+    mimeType: file.mime_type || "application/octet-stream",
+    size: file.size_bytes,
+    sha256: file.sha256,
+  }, range => downloadService.streamFile(file, channel, token, options, range));
+}
+
+// Guess the MIME type of an untracked file from its extension
+function guessMimeType(filename: string) {
+  const ext = path.extname(filename).toLowerCase();
+  if (['.jpg', '.jpeg'].includes(ext)) return 'image/jpeg';
+  if (ext === '.png') return 'image/png';
+  if (ext === '.pdf') return 'application/pdf';
+  if (ext === '.txt') return 'text/plain';
+  if (ext === '.zip') return 'application/zip';
+  return 'application/octet-stream';
+}
+
+// Channel fields that are safe to send to clients; the webhook URL is a secret
+function toPublicChannel(channel: Channel) {
+  const { webhook_url, ...rest } = channel;
+  return { ...rest, has_webhook: !!webhook_url };
+}
+
 // Validation schemas
 const uploadSchema = z.object({
-  token: z.string().min(1, { message: "Token is required" }),
-  channel_id: z.string().min(1, { message: "Channel ID is required" }),
+  token: z.string().optional(),
+  channel_id: z.string().optional(),
+  // Alternative to token and channel_id; posts through the channel's webhook
+  webhook_url: z.string().url({ message: "Invalid webhook URL" }).optional(),
   channel_name: z.string().optional(),
+  // Only used when the upload creates the channel
+  backend: z.enum(storageBackendEnum.enumValues).optional(),
+  concurrency: z.coerce.number().int().min(1).max(MAX_TRANSFER_CONCURRENCY).optional(),
+  replication_factor: z.coerce.number().int().min(1).max(MAX_REPLICATION_FACTOR).optional(),
+  // Reed-Solomon parity for large files: parity_shards chunks per data_shards parts
+  data_shards: z.coerce.number().int().min(1).max(MAX_DATA_SHARDS).optional(),
+  parity_shards: z.coerce.number().int().min(1).max(MAX_PARITY_SHARDS).optional(),
+  // Overrides the channel's compression; files of already compressed types are stored as they are
+  compression: z.enum(["none", ...compressionCodecEnum.enumValues]).optional(),
+}).refine(data => data.channel_id || data.webhook_url, {
+  message: "Channel ID is required",
+}).refine(data => !data.compression || data.compression === "none" || compressionService.isAvailable(data.compression), {
+  message: "Compression codec is not supported by this server",
+}).refine(data => (data.data_shards === undefined) === (data.parity_shards === undefined), {
+  message: "Data shards and parity shards must be given together",
+});
+
+const resumeUploadSchema = z.object({
+  token: z.string().optional(),
+  webhook_url: z.string().url({ message: "Invalid webhook URL" }).optional(),
+  concurrency: z.coerce.number().int().min(1).max(MAX_TRANSFER_CONCURRENCY).optional(),
 });
 
+// Tracked files are downloaded by file_id, or by name within a channel;
+// untracked attachments are searched for by name in the channel history
 const downloadSchema = z.object({
-  filename: z.string().min(1, { message: "Filename is required" }),
+  file_id: z.number().int().optional(),
+  filename: z.string().optional(),
   large: z.boolean().default(false),
-  token: z.string().min(1, { message: "Token is required" }),
-  channel_id: z.string().min(1, { message: "Channel ID is required" }),
+  token: z.string().optional(),
+  channel_id: z.string().optional(),
+  webhook_url: z.string().url({ message: "Invalid webhook URL" }).optional(),
+  concurrency: z.number().int().min(1).max(MAX_TRANSFER_CONCURRENCY).optional(),
+}).refine(data => data.file_id !== undefined || (data.filename && (data.channel_id || data.webhook_url)), {
+  message: "Either a file ID or a filename and channel ID are required",
+});
+
+// Query of GET /api/files/:fileId/download, which media players and
+// download managers can fetch directly
+const fileDownloadQuerySchema = z.object({
+  token: z.string().optional(),
+  concurrency: z.coerce.number().int().min(1).max(MAX_TRANSFER_CONCURRENCY).optional(),
+});
+
+const registerWebhookSchema = z.object({
+  webhook_url: z.string().url({ message: "Invalid webhook URL" }),
+  name: z.string().optional(),
+  // Either one replaces a webhook the channel already has
+  token: z.string().optional(),
+  current_webhook_url: z.string().optional(),
 });
 
 const listFilesSchema = z.object({
   token: z.string().min(1, { message: "Token is required" }),
   channel_id: z.string().min(1, { message: "Channel ID is required" }),
+  // Message ID cursors; pass the previous response's next_cursor back as `before`
+  before: z.string().regex(/^\d+$/, { message: "Cursor must be a message ID" }).optional(),
+  after: z.string().regex(/^\d+$/, { message: "Cursor must be a message ID" }).optional(),
+  page_size: z.number().int().min(1).max(500).optional(),
+}).refine(data => !(data.before && data.after), {
+  message: "Use either before or after, not both",
+});
+
+// Attachments picked from /api/list-files to add to the file index
+const importFilesSchema = z.object({
+  token: z.string().optional(),
+  channel_id: z.string().optional(),
+  webhook_url: z.string().url({ message: "Invalid webhook URL" }).optional(),
+  attachments: z.array(z.object({
+    id: z.string().regex(/^\d+$/, { message: "Attachment ID must be a message ID" }),
+    filename: z.string().min(1),
+    attachment_index: z.number().int().min(0).optional(),
+  })).min(1, { message: "Select at least one attachment" }).max(500),
+}).refine(data => data.channel_id || data.webhook_url, {
+  message: "Channel ID is required",
+});
+
+// Credentials to delete a file's chunks with; webhook channels can do without
+const deleteFileSchema = z.object({
+  token: z.string().optional(),
+});
+
+const updateChannelSchema = z.object({
+  name: z.string().min(1).optional(),
+  backend: z.enum(storageBackendEnum.enumValues).optional(),
+  // Joins a channel group, or leaves it with null
+  group_id: z.number().int().nullable().optional(),
+  // Compression for new uploads to the channel, or null for none
+  compression: z.enum(compressionCodecEnum.enumValues).nullable().optional(),
+}).refine(data => !data.compression || compressionService.isAvailable(data.compression), {
+  message: "Compression codec is not supported by this server",
+});
+
+const channelGroupSchema = z.object({
+  name: z.string().min(1, { message: "Group name is required" }),
+});
+
+const scrubSchema = z.object({
+  token: z.string().optional(),
+  verify_checksums: z.boolean().default(false),
+});
+
+const recoverySchema = z.object({
+  channel_id: z.string().min(1, { message: "Channel ID is required" }),
+  backend: z.enum(storageBackendEnum.enumValues).default("discord"),
+  token: z.string().optional(),
+  dry_run: z.boolean().default(false),
+}).refine(data => data.backend !== "discord" || !!data.token, {
+  message: "Token is required to read a Discord channel's history",
+});
+
+const gcScanSchema = z.object({
+  token: z.string().optional(),
+  stale_after_hours: z.number().int().min(1).max(MAX_GC_STALE_UPLOAD_HOURS).optional(),
+});
+
+// Approves all of a report unless file_ids or chunk_ids narrow it down
+const gcApproveSchema = z.object({
+  token: z.string().optional(),
+  file_ids: z.array(z.number().int()).optional(),
+  chunk_ids: z.array(z.string()).optional(),
+});
+
+const scrubResultsSchema = z.object({
+  status: z.enum(scrubStatusEnum.enumValues).optional(),
+});
+
+const replicateFileSchema = z.object({
+  token: z.string().optional(),
+  concurrency: z.number().int().min(1).max(MAX_TRANSFER_CONCURRENCY).optional(),
 });
 
 const listDatabaseFilesSchema = z.object({
@@ -126,6 +493,8 @@ const batchUploadSchema = z.object({
   userId: z.number({ required_error: "User ID is required" }),
   channelId: z.string().min(1, { message: "Channel ID is required" }),
   token: z.string().min(1, { message: "Token is required" }),
+  concurrency: z.number().int().min(1).max(MAX_TRANSFER_CONCURRENCY).optional(),
+  replicationFactor: z.number().int().min(1).max(MAX_REPLICATION_FACTOR).optional(),
 });
 
 const batchDownloadSchema = z.object({
@@ -139,10 +508,20 @@ const batchDownloadSchema = z.object({
 const encryptFileSchema = z.object({
   fileId: z.number({ required_error: "File ID is required" }),
   password: z.string().min(8, { message: "Password must be at least 8 characters" }),
+  // Needed to update the manifest of files in token-only Discord channels
+  token: z.string().optional(),
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
+  
+  // Routes below read the signed-in user from the session
+  setupSession(app);
+  
+  scheduleScrubs();
+  chunkCache.setMaxBytes(appSettings.chunkCacheSize).catch(error => {
+    console.error("Error setting up the chunk cache:", error);
+  });
 
   // Set up WebSocket server for real-time updates
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
@@ -169,72 +548,218 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   };
 
-  // Upload file to Discord
-  app.post("/api/upload", upload.single("file"), async (req: Request, res: Response) => {
+  // Upload file to Discord, streaming it through without buffering
+  app.post("/api/upload", async (req: Request, res: Response) => {
+    let fileId: number | undefined;
     try {
-      if (!req.file) {
+      const upload = await receiveFile(req, "file");
+      if (!upload) {
         return res.status(400).json({ message: "No file provided" });
       }
       
-      // Validate request body
-      const result = uploadSchema.safeParse(req.body);
+      // Validate the form fields sent ahead of the file
+      const result = uploadSchema.safeParse(upload.fields);
       if (!result.success) {
+        upload.stream.resume();
         return res.status(400).json({ message: result.error.errors[0].message });
       }
       
-      const { token, channel_id, channel_name } = result.data;
-      
-      // Get or create channel record
-      let channel = await storage.getChannelByDiscordId(channel_id);
+      const {
+        token,
+        channel_id,
+        webhook_url,
+        channel_name,
+        backend,
+        concurrency,
+        replication_factor,
+        data_shards,
+        parity_shards,
+        compression,
+      } = result.data;
+      
+      // Get or create channel record; a webhook knows its own channel
+      let channel = webhook_url
+        ? await webhookService.registerWebhook(webhook_url, channel_name, { token })
+        : await storage.getChannelByDiscordId(channel_id!);
       if (!channel) {
         channel = await storage.createChannel({
-          discord_channel_id: channel_id,
+          discord_channel_id: channel_id!,
           name: channel_name || `Channel ${channel_id}`,
+          backend: backend ?? "discord",
         });
-      } else {
+      } else if (!webhook_url) {
         await storage.updateChannelLastUsed(channel.id);
       }
       
-      // Determine if this is a large file that needs to be chunked
-      const isLarge = req.file.size > 10 * 1024 * 1024; // > 10MB
+      if (!hasChannelCredentials(channel, token, webhook_url)) {
+        upload.stream.resume();
+        return res.status(400).json({ message: "Token is required" });
+      }
       
-      // Create file record
+      const replicationFactor = replication_factor ?? appSettings.replicationFactor;
+      const replicationError = await getReplicationError(channel, replicationFactor);
+      if (replicationError) {
+        upload.stream.resume();
+        return res.status(400).json({ message: replicationError });
+      }
+      
+      // The schema only checks a codec sent with the upload; the channel's may
+      // have been set on a server that had it
+      if (compression === undefined && channel.compression && !compressionService.isAvailable(channel.compression)) {
+        upload.stream.resume();
+        return res.status(400).json({ message: `Channel compresses with ${channel.compression}, which this server does not support` });
+      }
+      
+      // Create file record; size and type are only known once the stream ends
       const file = await storage.createFile({
-        filename: req.file.originalname,
-        original_filename: req.file.originalname,
-        size_bytes: req.file.size,
-        type: isLarge ? "large_chunked" : "normal",
+        filename: upload.filename,
+        original_filename: upload.filename,
+        size_bytes: 0,
+        type: "normal",
         channel_id: channel.id,
         upload_complete: false,
         is_public: false,
-        mime_type: req.file.mimetype || 'application/octet-stream',
-      });
-      
-      // Upload file to Discord
-      const messageId = await discordService.uploadFile(channel_id, token, req.file);
+        mime_type: upload.mimetype,
+        replication_factor: replicationFactor,
+        data_shards: data_shards ?? 0,
+        parity_shards: parity_shards ?? 0,
+        compression: compressionService.chooseCodec(compression, channel, upload.mimetype),
+      });
+      fileId = file.id;
+      // Recorded as the uploader, who may later delete the file
+      const userId = getSessionUserId(req);
+      if (userId !== undefined) {
+        await profileService.recordOperation(userId, file.id, "upload");
+      }
       
-      // Update file record with messageId and mark as complete
-      await storage.updateFileUploadComplete(file.id, messageId);
+      // Stream file to the channel's backend, recording each chunk as it lands
+      const uploaded = await uploadService.uploadToFile(file, channel, token, upload.stream, {
+        concurrency: concurrency ?? appSettings.transferConcurrency,
+        defaultChunkSize: appSettings.defaultChunkSize,
+      });
       
       // Broadcast the new file to connected clients
       broadcastMessage('file_uploaded', {
-        id: file.id,
-        filename: file.filename,
-        size: file.size_bytes,
+        id: uploaded.id,
+        filename: uploaded.filename,
+        size: uploaded.size_bytes,
         channelId: channel.id
       });
       
       return res.status(200).json({
         message: "File uploaded successfully",
-        messageId,
-        filename: req.file.originalname,
+        messageId: uploaded.discord_message_id,
+        filename: upload.filename,
         file_id: file.id,
-        share_id: file.share_id
+        share_id: file.share_id,
+        sha256: uploaded.sha256,
+        deduplicated_bytes: uploaded.deduplicated_bytes,
+        compression: uploaded.compression,
+        stored_bytes: uploaded.stored_bytes
       });
     } catch (error) {
       console.error("Error uploading file:", error);
-      return res.status(500).json({
-        message: error instanceof Error ? error.message : "Failed to upload file"
+      
+      // Drain whatever is left of the request body so the response can be sent
+      req.unpipe();
+      req.resume();
+      
+      return res.status(getUploadErrorStatus(error)).json({
+        message: error instanceof Error ? error.message : "Failed to upload file",
+        // Lets the client resume the upload instead of starting over
+        file_id: fileId
+      });
+    }
+  });
+  
+  // Resume an interrupted upload; the client re-sends the same file and only
+  // the parts that are not yet stored in Discord are uploaded
+  app.post("/api/upload/:fileId/resume", async (req: Request, res: Response) => {
+    try {
+      const fileId = parseInt(req.params.fileId);
+      if (isNaN(fileId)) {
+        return res.status(400).json({ message: "Invalid file ID" });
+      }
+      
+      const upload = await receiveFile(req, "file");
+      if (!upload) {
+        return res.status(400).json({ message: "No file provided" });
+      }
+      
+      const result = resumeUploadSchema.safeParse(upload.fields);
+      if (!result.success) {
+        upload.stream.resume();
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+      
+      const { token, webhook_url, concurrency } = result.data;
+      
+      const file = await storage.getFile(fileId);
+      if (!file) {
+        upload.stream.resume();
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      if (file.upload_complete) {
+        upload.stream.resume();
+        return res.status(409).json({ message: "File upload is already complete" });
+      }
+      
+      if (upload.filename !== file.original_filename) {
+        upload.stream.resume();
+        return res.status(400).json({ message: "Uploaded file does not match the interrupted upload" });
+      }
+      
+      const channel = webhook_url
+        ? await webhookService.registerWebhook(webhook_url, undefined, { token })
+        : await storage.getChannel(file.channel_id);
+      if (!channel) {
+        upload.stream.resume();
+        return res.status(404).json({ message: "Channel not found" });
+      }
+      if (channel.id !== file.channel_id) {
+        upload.stream.resume();
+        return res.status(403).json({ message: "Webhook does not post to this file's channel" });
+      }
+      if (!hasChannelCredentials(channel, token, webhook_url)) {
+        upload.stream.resume();
+        return res.status(400).json({ message: "Token is required" });
+      }
+      await storage.updateChannelLastUsed(channel.id);
+      
+      const resumedFromPart = await uploadService.getFirstMissingPart(file.id);
+      const uploaded = await uploadService.uploadToFile(file, channel, token, upload.stream, {
+        concurrency: concurrency ?? appSettings.transferConcurrency,
+        defaultChunkSize: appSettings.defaultChunkSize,
+      });
+      
+      broadcastMessage('file_uploaded', {
+        id: uploaded.id,
+        filename: uploaded.filename,
+        size: uploaded.size_bytes,
+        channelId: channel.id
+      });
+      
+      return res.status(200).json({
+        message: "Upload resumed and completed successfully",
+        filename: file.original_filename,
+        file_id: file.id,
+        share_id: file.share_id,
+        sha256: uploaded.sha256,
+        deduplicated_bytes: uploaded.deduplicated_bytes,
+        compression: uploaded.compression,
+        stored_bytes: uploaded.stored_bytes,
+        resumed_from_part: resumedFromPart
+      });
+    } catch (error) {
+      console.error("Error resuming upload:", error);
+      
+      req.unpipe();
+      req.resume();
+      
+      return res.status(getUploadErrorStatus(error)).json({
+        message: error instanceof Error ? error.message : "Failed to resume upload",
+        file_id: parseInt(req.params.fileId) || undefined
       });
     }
   });
@@ -248,37 +773,115 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: result.error.errors[0].message });
       }
       
-      const { filename, large, token, channel_id } = result.data;
+      const { file_id, filename, large, token, channel_id, webhook_url, concurrency } = result.data;
+      const options = { concurrency: concurrency ?? appSettings.transferConcurrency };
+      
+      // A webhook stands in for the channel ID, and only grants access to its own channel
+      const webhookChannel = webhook_url ? await webhookService.findWebhookChannel(webhook_url) : undefined;
+      if (webhook_url && !webhookChannel) {
+        return res.status(404).json({ message: "Webhook is not registered" });
+      }
+      
+      // Find the tracked file, by ID or as the latest upload of that name
+      let file: FileRecord | undefined;
+      if (file_id !== undefined) {
+        file = await storage.getFile(file_id);
+        if (!file) {
+          return res.status(404).json({ message: "File not found" });
+        }
+      } else {
+        const namedChannel = webhookChannel ?? await storage.getChannelByDiscordId(channel_id!);
+        if (namedChannel) {
+          file = await storage.getFileByName(namedChannel.id, filename!);
+        }
+      }
+      
+      if (file) {
+        // Tracked file - fetch its chunks directly by ID
+        const channel = await storage.getChannel(file.channel_id);
+        if (!channel) {
+          return res.status(404).json({ message: "Channel not found" });
+        }
+        if (webhookChannel && webhookChannel.id !== channel.id) {
+          return res.status(403).json({ message: "Webhook does not post to this file's channel" });
+        }
+        if (!hasChannelCredentials(channel, token, webhook_url)) {
+          return res.status(400).json({ message: "Token is required" });
+        }
+        await storage.updateChannelLastUsed(channel.id);
+        
+        return await sendTrackedFile(req, res, file, channel, token, options);
+      }
+      
+      // Untracked attachment - search the channel history by name, which
+      // only a token can read
+      const downloadName = filename!;
       
-      // Check if we have this file in our database
-      let channel = await storage.getChannelByDiscordId(channel_id);
+      const channel = webhookChannel ?? await storage.getChannelByDiscordId(channel_id!);
+      if (!token || (channel && channel.backend !== "discord")) {
+        return res.status(404).json({ message: `File "${downloadName}" not found in this channel's uploads` });
+      }
       
-      // If we have the channel and the file, update last used time
+      // If we have the channel, update last used time
       if (channel) {
         await storage.updateChannelLastUsed(channel.id);
       }
       
-      // Download file from Discord
-      const fileBuffer = await discordService.downloadFile(channel_id, token, filename, large);
+      const discordChannelId = channel?.discord_channel_id ?? channel_id!;
+      const attachments = await discordService.findFileAttachments(discordChannelId, token, downloadName, large);
       
-      // Set appropriate headers for file download
-      res.setHeader("Content-Disposition", `attachment; filename=${filename}`);
+      return await sendFileStream(req, res, {
+        filename: downloadName,
+        mimeType: guessMimeType(downloadName),
+        size: attachments.reduce((total, attachment) => total + attachment.size, 0),
+      }, range => downloadService.streamAttachments(discordChannelId, token, attachments, options, range));
+    } catch (error) {
+      console.error("Error downloading file:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to download file"
+      });
+    }
+  });
+
+  // Download a tracked file by ID; supports Range requests
+  app.get("/api/files/:fileId/download", async (req: Request, res: Response) => {
+    try {
+      const fileId = parseInt(req.params.fileId);
+      if (isNaN(fileId)) {
+        return res.status(400).json({ message: "Invalid file ID" });
+      }
       
-      // Try to determine MIME type from filename extension
-      const ext = path.extname(filename).toLowerCase();
-      let contentType = 'application/octet-stream';
+      const result = fileDownloadQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+      const { token, concurrency } = result.data;
       
-      // Simple MIME type mapping for common files
-      if (['.jpg', '.jpeg'].includes(ext)) contentType = 'image/jpeg';
-      else if (ext === '.png') contentType = 'image/png';
-      else if (ext === '.pdf') contentType = 'application/pdf';
-      else if (ext === '.txt') contentType = 'text/plain';
-      else if (ext === '.zip') contentType = 'application/zip';
+      const file = await storage.getFile(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
       
-      res.setHeader("Content-Type", contentType);
+      // Private files only go to whoever uploaded or imported them
+      if (!file.is_public) {
+        const userId = getSessionUserId(req);
+        if (userId === undefined || await storage.getFileOwnerId(fileId) !== userId) {
+          return res.status(403).json({ message: "This file is not shared publicly" });
+        }
+      }
       
-      // Send the file as a response
-      return res.status(200).send(fileBuffer);
+      const channel = await storage.getChannel(file.channel_id);
+      if (!channel) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+      if (!hasChannelCredentials(channel, token)) {
+        return res.status(400).json({ message: "Token is required" });
+      }
+      await storage.updateChannelLastUsed(channel.id);
+      
+      return await sendTrackedFile(req, res, file, channel, token, {
+        concurrency: concurrency ?? appSettings.transferConcurrency,
+      });
     } catch (error) {
       console.error("Error downloading file:", error);
       return res.status(500).json({
@@ -296,14 +899,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: result.error.errors[0].message });
       }
       
-      const { token, channel_id } = result.data;
+      const { token, channel_id, before, after, page_size } = result.data;
       
-      // Get list of file attachments in the channel
-      const attachments = await discordService.findFileMessages(channel_id, token);
+      // Channels we have not stored anything in yet are assumed to be on Discord
+      const channel = await storage.getChannelByDiscordId(channel_id);
+      const { backend, target } = channel
+        ? getChannelBackend(channel, token)
+        : { backend: discordService, target: { channelId: channel_id, token } };
+      
+      // Get one page of stored chunks in the channel
+      const page = await backend.list(target, {
+        before,
+        after,
+        pageSize: page_size,
+      });
+      
+      // Flag the chunks no file record refers to, so they can be imported
+      const tracked = channel ? await storage.getReferencedChunkIds(channel.id) : new Set<string>();
       
       return res.status(200).json({
         message: "Files retrieved successfully",
-        files: attachments
+        files: page.chunks.map(chunk => ({ ...chunk, tracked: tracked.has(chunk.id) })),
+        next_cursor: page.nextCursor,
+        has_more: page.nextCursor !== null
       });
     } catch (error) {
       console.error("Error listing files:", error);
@@ -313,6 +931,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Add untracked channel attachments to the file index; name.partN
+  // attachments are put together into one large file
+  app.post("/api/import-files", async (req: Request, res: Response) => {
+    try {
+      const result = importFilesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+      
+      const { token, channel_id, webhook_url, attachments } = result.data;
+      
+      let channel = webhook_url
+        ? await webhookService.registerWebhook(webhook_url, undefined, { token })
+        : await storage.getChannelByDiscordId(channel_id!);
+      if (!channel) {
+        channel = await storage.createChannel({
+          discord_channel_id: channel_id!,
+          name: `Channel ${channel_id}`,
+          backend: "discord",
+        });
+      }
+      
+      if (!hasChannelCredentials(channel, token, webhook_url)) {
+        return res.status(400).json({ message: "Token is required" });
+      }
+      
+      const imported = await importService.importChunks(channel, token, attachments, getSessionUserId(req));
+      
+      imported.files.forEach(file => broadcastMessage('file_uploaded', {
+        id: file.id,
+        filename: file.filename,
+        size: file.size_bytes,
+        channelId: channel!.id
+      }));
+      
+      return res.status(200).json({
+        message: `Imported ${imported.files.length} of the selected files`,
+        files: imported.files.map(file => ({
+          id: file.id,
+          filename: file.filename,
+          size: file.size_bytes,
+          type: file.type,
+          share_id: file.share_id,
+        })),
+        skipped: imported.skipped
+      });
+    } catch (error) {
+      console.error("Error importing files:", error);
+      return res.status(error instanceof WebhookConflictError ? 403 : 500).json({
+        message: error instanceof Error ? error.message : "Failed to import files"
+      });
+    }
+  });
+
+  // Register a channel webhook as an upload target, so the channel can be
+  // written without a bot token
+  app.post("/api/webhooks", async (req: Request, res: Response) => {
+    try {
+      const result = registerWebhookSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+      
+      const { webhook_url, name, token, current_webhook_url } = result.data;
+      const channel = await webhookService.registerWebhook(webhook_url, name, {
+        token,
+        currentWebhookUrl: current_webhook_url,
+      });
+      
+      return res.status(200).json({
+        message: "Webhook registered successfully",
+        channel: toPublicChannel(channel)
+      });
+    } catch (error) {
+      console.error("Error registering webhook:", error);
+      return res.status(error instanceof WebhookConflictError ? 403 : 500).json({
+        message: error instanceof Error ? error.message : "Failed to register webhook"
+      });
+    }
+  });
+
   // List files from database (files we have uploaded/tracked)
   app.post("/api/db-files", async (req: Request, res: Response) => {
     try {
@@ -351,6 +1050,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           share_id: file.share_id,
           created_at: file.created_at,
           mime_type: file.mime_type,
+          sha256: file.sha256,
         }))
       });
     } catch (error) {
@@ -388,6 +1088,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         type: file.type,
         mime_type: file.mime_type,
         created_at: file.created_at,
+        sha256: file.sha256,
       });
     } catch (error) {
       console.error("Error getting shared file:", error);
@@ -427,9 +1128,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
         is_public
       });
     } catch (error) {
-      console.error("Error toggling file public status:", error);
+      console.error("Error toggling file public status:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to toggle file public status"
+      });
+    }
+  });
+  
+  // Delete one of the caller's own files, with the messages backing it
+  app.delete("/api/files/:fileId", async (req: Request, res: Response) => {
+    try {
+      const fileId = parseInt(req.params.fileId);
+      if (isNaN(fileId)) {
+        return res.status(400).json({ message: "Invalid file ID" });
+      }
+      
+      const userId = getSessionUserId(req);
+      if (userId === undefined) {
+        return res.status(401).json({ message: "Sign in to delete your files" });
+      }
+      
+      const result = deleteFileSchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+      
+      const file = await storage.getFile(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      // Files belong to whoever uploaded or imported them
+      if (await storage.getFileOwnerId(fileId) !== userId) {
+        return res.status(403).json({ message: "You can only delete your own files" });
+      }
+      
+      const deleted = await deletionService.deleteFile(file, result.data.token);
+      await storage.createFileOperation({
+        user_id: userId,
+        file_id: null,
+        operation_type: "delete",
+        details: { file_id: fileId, filename: file.original_filename, ...deleted },
+      });
+      
+      return res.status(200).json({
+        message: deleted.chunks_pending > 0
+          ? `File deleted; ${deleted.chunks_pending} of its messages could not be removed yet and will be retried`
+          : "File deleted successfully",
+        file_id: fileId,
+        ...deleted
+      });
+    } catch (error) {
+      console.error("Error deleting file:", error);
       return res.status(500).json({
-        message: error instanceof Error ? error.message : "Failed to toggle file public status"
+        message: error instanceof Error ? error.message : "Failed to delete file"
       });
     }
   });
@@ -665,18 +1417,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: result.error.errors[0].message });
       }
       
-      const { userId, channelId, token } = result.data;
+      const { userId, channelId, token, concurrency } = result.data;
       
       if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
         return res.status(400).json({ message: "No files provided" });
       }
       
+      // Every file of the batch gets the same replication factor
+      const replicationFactor = result.data.replicationFactor ?? appSettings.replicationFactor;
+      const replicationError = await getReplicationError(
+        await storage.getChannelByDiscordId(channelId),
+        replicationFactor
+      );
+      if (replicationError) {
+        return res.status(400).json({ message: replicationError });
+      }
+      
       // Create batch upload operation
       const batchOp = await batchService.createBatchUpload(
         userId,
         req.files as Express.Multer.File[],
         channelId,
-        token
+        token,
+        replicationFactor,
+        {
+          concurrency: concurrency ?? appSettings.transferConcurrency,
+          defaultChunkSize: appSettings.defaultChunkSize,
+        }
       );
       
       return res.status(200).json({
@@ -818,7 +1585,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: result.error.errors[0].message });
       }
       
-      const { fileId, password } = result.data;
+      const { fileId, password, token } = result.data;
       
       // Get file from database
       const file = await storage.getFile(fileId);
@@ -838,9 +1605,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Store encryption details
       await encryptionService.storeEncryptionDetails(fileId, password, salt);
       
+      // Repost the manifest so the channel alone still tells how to decrypt
+      const channel = await storage.getChannel(file.channel_id);
+      const manifestUpdated = !!file.upload_complete && !!channel &&
+        hasChannelCredentials(channel, token, channel.webhook_url ?? undefined);
+      if (manifestUpdated) {
+        await manifestService.publish(file, channel!, token);
+      }
+      
       return res.status(200).json({
         message: "File encryption details stored successfully",
-        fileId
+        fileId,
+        manifest_updated: manifestUpdated
       });
     } catch (error) {
       console.error("Error encrypting file:", error);
@@ -988,40 +1764,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "File not found" });
       }
       
-      // First delete related records
-      
-      // 1. Delete file parts if it's a chunked file
-      try {
-        // Use direct SQL approach to avoid type errors
-        await db.execute(sql`DELETE FROM ${fileParts} WHERE file_id = ${fileId}`);
-        console.log(`Deleted file parts for file ${fileId}`);
-      } catch (e) {
-        console.log(`Error removing file parts for file ${fileId}:`, e);
-      }
-      
-      // 2. Delete file operations related to this file
-      try {
-        await db.execute(sql`DELETE FROM ${fileOperationsHistory} WHERE file_id = ${fileId}`);
-        console.log(`Deleted file operations for file ${fileId}`);
-      } catch (e) {
-        console.log(`Error removing file operations for file ${fileId}:`, e);
-      }
-      
-      // 3. Delete encryption keys for this file
-      try {
-        await db.execute(sql`DELETE FROM ${fileEncryptionKeys} WHERE file_id = ${fileId}`);
-        console.log(`Deleted encryption keys for file ${fileId}`);
-      } catch (e) {
-        console.log(`Error removing encryption keys for file ${fileId}:`, e);
+      const result = deleteFileSchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
       }
       
-      // Finally delete the file
-      await db.execute(sql`DELETE FROM ${files} WHERE id = ${fileId}`);
-      console.log(`Deleted file ${fileId}`);
+      // Removes the file's records, then the messages backing it
+      const deleted = await deletionService.deleteFile(file, result.data.token);
       
       return res.status(200).json({ 
         message: "File deleted successfully",
-        fileId
+        fileId,
+        ...deleted
       });
     } catch (error) {
       console.error("Error deleting file:", error);
@@ -1116,7 +1870,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         totalFiles,
         storageUsed: parseFloat(storageUsedGB.toFixed(2)),
         totalRequests,
-        averageFileSize: parseFloat(avgFileSizeMB.toFixed(2))
+        averageFileSize: parseFloat(avgFileSizeMB.toFixed(2)),
+        chunkCache: chunkCache.getStats()
       });
     } catch (error) {
       console.error("Error getting admin stats:", error);
@@ -1235,6 +1990,285 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // List files with parts stored fewer times than their replication factor
+  app.get("/api/admin/replication", async (req: Request, res: Response) => {
+    try {
+      const underReplicated = await storage.getUnderReplicatedFiles();
+      
+      return res.status(200).json({
+        files: underReplicated.map(({ file, min_copies }) => ({
+          id: file.id,
+          filename: file.original_filename,
+          size: file.size_bytes,
+          channelId: file.channel_id,
+          replicationFactor: file.replication_factor,
+          minCopies: min_copies,
+          createdAt: file.created_at
+        }))
+      });
+    } catch (error) {
+      console.error("Error getting under-replicated files:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to get under-replicated files"
+      });
+    }
+  });
+  
+  // Copy a file's parts until each one is stored replication_factor times (admin only)
+  app.post("/api/admin/files/:fileId/replicate", async (req: Request, res: Response) => {
+    try {
+      const fileId = parseInt(req.params.fileId);
+      if (isNaN(fileId)) {
+        return res.status(400).json({ message: "Invalid file ID" });
+      }
+      
+      const result = replicateFileSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+      
+      const file = await storage.getFile(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      const replication = await replicationService.replicateFile(file, result.data.token, {
+        concurrency: result.data.concurrency ?? appSettings.transferConcurrency
+      });
+      
+      return res.status(200).json({
+        message: replication.parts_short.length === 0 && replication.parts_lost.length === 0
+          ? "File re-replicated successfully"
+          : "File is still under-replicated",
+        fileId,
+        ...replication
+      });
+    } catch (error) {
+      console.error("Error re-replicating file:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to re-replicate file"
+      });
+    }
+  });
+  
+  // Get the state of the last integrity scrub and the latest result of every
+  // file it found a problem with
+  app.get("/api/admin/scrub", async (req: Request, res: Response) => {
+    try {
+      const query = scrubResultsSchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.errors[0].message });
+      }
+      
+      const counts = await storage.getScrubStatusCounts();
+      const results = query.data.status
+        ? await storage.getScrubResults(query.data.status)
+        : [...await storage.getScrubResults("missing"), ...await storage.getScrubResults("corrupt")];
+      
+      return res.status(200).json({
+        ...scrubService.getStatus(),
+        counts,
+        files: results.map(({ result, file }) => ({
+          id: file.id,
+          filename: file.original_filename,
+          size: file.size_bytes,
+          status: result.status,
+          chunksChecked: result.chunks_checked,
+          chunksMissing: result.chunks_missing,
+          chunksCorrupt: result.chunks_corrupt,
+          checksumsVerified: result.checksums_verified,
+          details: result.details,
+          checkedAt: result.checked_at
+        }))
+      });
+    } catch (error) {
+      console.error("Error getting scrub results:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to get scrub results"
+      });
+    }
+  });
+  
+  // Start an integrity scrub of every file; it runs in the background (admin only)
+  app.post("/api/admin/scrub", async (req: Request, res: Response) => {
+    try {
+      const result = scrubSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+      
+      if (scrubService.getStatus().running) {
+        return res.status(409).json({ message: "A scrub is already running" });
+      }
+      
+      scrubService.run({
+        token: result.data.token || process.env.SCRUB_DISCORD_TOKEN,
+        verifyChecksums: result.data.verify_checksums,
+        concurrency: appSettings.transferConcurrency,
+      }).catch(error => console.error("Scrub failed:", error));
+      
+      return res.status(202).json({
+        message: "Scrub started",
+        ...scrubService.getStatus()
+      });
+    } catch (error) {
+      console.error("Error starting scrub:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to start scrub"
+      });
+    }
+  });
+  
+  // Get the report of the recovery in progress, or of the last one
+  app.get("/api/admin/recovery", async (req: Request, res: Response) => {
+    try {
+      return res.status(200).json(recoveryService.getStatus());
+    } catch (error) {
+      console.error("Error getting recovery status:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to get recovery status"
+      });
+    }
+  });
+  
+  // Rebuild file records from a channel's history; it runs in the background (admin only)
+  app.post("/api/admin/recovery", async (req: Request, res: Response) => {
+    try {
+      const result = recoverySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+      
+      if (recoveryService.getStatus().running) {
+        return res.status(409).json({ message: "A recovery is already running" });
+      }
+      
+      recoveryService.run({
+        channelId: result.data.channel_id,
+        backend: result.data.backend,
+        token: result.data.token,
+        dryRun: result.data.dry_run,
+      }).catch(error => console.error("Recovery failed:", error));
+      
+      return res.status(202).json({
+        message: result.data.dry_run ? "Recovery dry run started" : "Recovery started",
+        ...recoveryService.getStatus()
+      });
+    } catch (error) {
+      console.error("Error starting recovery:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to start recovery"
+      });
+    }
+  });
+  
+  // List chunks of deleted files that are still waiting to be deleted (admin only)
+  app.get("/api/admin/pending-deletions", async (req: Request, res: Response) => {
+    try {
+      const pending = await deletionService.getPendingDeletions();
+      return res.status(200).json({ pending });
+    } catch (error) {
+      console.error("Error listing pending deletions:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to list pending deletions"
+      });
+    }
+  });
+  
+  // Try again to delete the pending chunks (admin only)
+  app.post("/api/admin/pending-deletions/retry", async (req: Request, res: Response) => {
+    try {
+      const result = deleteFileSchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+      
+      const retried = await deletionService.retryPendingDeletions(result.data.token);
+      return res.status(200).json({
+        message: `Deleted ${retried.chunks_deleted} chunks; ${retried.chunks_pending} still pending`,
+        ...retried
+      });
+    } catch (error) {
+      console.error("Error retrying pending deletions:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to retry pending deletions"
+      });
+    }
+  });
+  
+  // Get the latest garbage collection report
+  app.get("/api/admin/gc", async (req: Request, res: Response) => {
+    try {
+      return res.status(200).json(gcService.getStatus());
+    } catch (error) {
+      console.error("Error getting garbage collection status:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to get garbage collection status"
+      });
+    }
+  });
+  
+  // Scan for leftovers of failed uploads; nothing is deleted until the
+  // report is approved (admin only)
+  app.post("/api/admin/gc", async (req: Request, res: Response) => {
+    try {
+      const result = gcScanSchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+      
+      if (gcService.getStatus().running) {
+        return res.status(409).json({ message: "Garbage collection is already running" });
+      }
+      
+      gcService.scan({
+        token: result.data.token,
+        staleAfterHours: result.data.stale_after_hours ?? appSettings.gcStaleUploadHours,
+      }).catch(error => console.error("Garbage collection scan failed:", error));
+      
+      return res.status(202).json({
+        message: "Garbage collection scan started",
+        ...gcService.getStatus()
+      });
+    } catch (error) {
+      console.error("Error starting garbage collection:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to start garbage collection"
+      });
+    }
+  });
+  
+  // Delete what a garbage collection report found (admin only)
+  app.post("/api/admin/gc/:reportId/approve", async (req: Request, res: Response) => {
+    try {
+      const result = gcApproveSchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+      
+      const approvalError = gcService.getApprovalError(req.params.reportId);
+      if (approvalError) {
+        return res.status(409).json({ message: approvalError });
+      }
+      
+      gcService.apply(req.params.reportId, {
+        token: result.data.token,
+        fileIds: result.data.file_ids,
+        chunkIds: result.data.chunk_ids,
+      }).catch(error => console.error("Garbage collection failed:", error));
+      
+      return res.status(202).json({
+        message: "Garbage collection started",
+        ...gcService.getStatus()
+      });
+    } catch (error) {
+      console.error("Error approving garbage collection:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to approve garbage collection"
+      });
+    }
+  });
+  
   // Get system settings for admin dashboard
   
   app.get("/api/admin/settings", async (req: Request, res: Response) => {
@@ -1259,7 +2293,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         appSettings.maxFileSize = updates.maxFileSize;
       }
       
-      if (updates.defaultChunkSize && typeof updates.defaultChunkSize === 'number') {
+      if (Number.isInteger(updates.defaultChunkSize) && updates.defaultChunkSize > 0) {
         appSettings.defaultChunkSize = updates.defaultChunkSize;
       }
       
@@ -1275,6 +2309,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
         appSettings.registrationEnabled = updates.registrationEnabled;
       }
       
+      if (Number.isInteger(updates.transferConcurrency) &&
+          updates.transferConcurrency >= 1 &&
+          updates.transferConcurrency <= MAX_TRANSFER_CONCURRENCY) {
+        appSettings.transferConcurrency = updates.transferConcurrency;
+      }
+      
+      if (Number.isInteger(updates.replicationFactor) &&
+          updates.replicationFactor >= 1 &&
+          updates.replicationFactor <= MAX_REPLICATION_FACTOR) {
+        appSettings.replicationFactor = updates.replicationFactor;
+      }
+      
+      if (typeof updates.scrubVerifyChecksums === 'boolean') {
+        appSettings.scrubVerifyChecksums = updates.scrubVerifyChecksums;
+      }
+      
+      if (Number.isInteger(updates.gcStaleUploadHours) &&
+          updates.gcStaleUploadHours >= 1 &&
+          updates.gcStaleUploadHours <= MAX_GC_STALE_UPLOAD_HOURS) {
+        appSettings.gcStaleUploadHours = updates.gcStaleUploadHours;
+      }
+      
+      if (Number.isInteger(updates.chunkCacheSize) &&
+          updates.chunkCacheSize >= 0 &&
+          updates.chunkCacheSize !== appSettings.chunkCacheSize) {
+        appSettings.chunkCacheSize = updates.chunkCacheSize;
+        await chunkCache.setMaxBytes(appSettings.chunkCacheSize);
+      }
+      
+      if (Number.isInteger(updates.scrubIntervalHours) &&
+          updates.scrubIntervalHours >= 0 &&
+          updates.scrubIntervalHours <= MAX_SCRUB_INTERVAL_HOURS &&
+          updates.scrubIntervalHours !== appSettings.scrubIntervalHours) {
+        appSettings.scrubIntervalHours = updates.scrubIntervalHours;
+        scheduleScrubs();
+      }
+      
       return res.status(200).json({
         message: "Settings updated successfully",
         settings: appSettings
@@ -1287,6 +2358,135 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List channels and the storage backend each one uses
+  app.get("/api/admin/channels", async (req: Request, res: Response) => {
+    try {
+      const channels = await storage.getAllChannels();
+      return res.status(200).json({ channels: channels.map(toPublicChannel) });
+    } catch (error) {
+      console.error("Error getting channels:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to get channels"
+      });
+    }
+  });
+  
+  // Rename a channel or move it to another storage backend (admin only)
+  app.patch("/api/admin/channels/:channelId", async (req: Request, res: Response) => {
+    try {
+      const channelId = parseInt(req.params.channelId);
+      if (isNaN(channelId)) {
+        return res.status(400).json({ message: "Invalid channel ID" });
+      }
+      
+      const result = updateChannelSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+      
+      const channel = await storage.getChannel(channelId);
+      if (!channel) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+      
+      if (result.data.group_id) {
+        const group = await storage.getChannelGroup(result.data.group_id);
+        if (!group) {
+          return res.status(404).json({ message: "Channel group not found" });
+        }
+      }
+      
+      // Existing chunks are not migrated, so only empty channels may switch backend
+      if (result.data.backend && result.data.backend !== channel.backend) {
+        const channelFiles = await storage.listFilesByChannel(channel.id, 1);
+        if (channelFiles.length > 0) {
+          return res.status(409).json({
+            message: "Channel already has files stored in its current backend"
+          });
+        }
+      }
+      
+      const updated = await storage.updateChannel(channel.id, result.data);
+      
+      return res.status(200).json({
+        message: "Channel updated successfully",
+        channel: toPublicChannel(updated)
+      });
+    } catch (error) {
+      console.error("Error updating channel:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to update channel"
+      });
+    }
+  });
+
+  // List channel groups with their member channels
+  app.get("/api/admin/channel-groups", async (req: Request, res: Response) => {
+    try {
+      const groups = await storage.getAllChannelGroups();
+      const groupsWithChannels = await Promise.all(groups.map(async (group) => ({
+        ...group,
+        channels: (await storage.getChannelsByGroup(group.id)).map(toPublicChannel)
+      })));
+      
+      return res.status(200).json({ groups: groupsWithChannels });
+    } catch (error) {
+      console.error("Error getting channel groups:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to get channel groups"
+      });
+    }
+  });
+  
+  // Create a channel group; channels join it through PATCH /api/admin/channels/:channelId
+  app.post("/api/admin/channel-groups", async (req: Request, res: Response) => {
+    try {
+      const result = channelGroupSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+      
+      const group = await storage.createChannelGroup({ name: result.data.name });
+      
+      return res.status(200).json({
+        message: "Channel group created successfully",
+        group
+      });
+    } catch (error) {
+      console.error("Error creating channel group:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to create channel group"
+      });
+    }
+  });
+  
+  // Delete a channel group; its channels are kept and files stay readable
+  app.delete("/api/admin/channel-groups/:groupId", async (req: Request, res: Response) => {
+    try {
+      const groupId = parseInt(req.params.groupId);
+      if (isNaN(groupId)) {
+        return res.status(400).json({ message: "Invalid group ID" });
+      }
+      
+      const group = await storage.getChannelGroup(groupId);
+      if (!group) {
+        return res.status(404).json({ message: "Channel group not found" });
+      }
+      
+      await storage.deleteChannelGroup(groupId);
+      
+      return res.status(200).json({
+        message: "Channel group deleted successfully",
+        groupId
+      });
+    } catch (error) {
+      console.error("Error deleting channel group:", error);
+      return res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to delete channel group"
+      });
+    }
+  });
+
   // Get system logs for admin dashboard
   app.get("/api/admin/logs", async (req: Request, res: Response) => {
     try {
@@ -0,0 +1,142 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRequire } from 'module';
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import * as schema from '@shared/schema';
+
+// drizzle-kit only ships its schema diffing API as CommonJS
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)('drizzle-kit/api');
+
+// Storage runs against an in-memory Postgres, reached through the real driver
+let database: PGlite;
+let server: PGLiteSocketServer;
+let storage: typeof import('./storage').storage;
+let pool: typeof import('./db').pool;
+
+before(async () => {
+  database = await PGlite.create();
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    await database.exec(statement);
+  }
+  server = new PGLiteSocketServer({ db: database, host: '127.0.0.1', port: 0 });
+  await server.start();
+
+  // The database module connects to DATABASE_URL as soon as it is imported
+  process.env.DATABASE_URL = `postgres://postgres@${server.getServerConn()}/postgres`;
+  ({ storage } = await import('./storage'));
+  ({ pool } = await import('./db'));
+});
+
+after(async () => {
+  await pool?.end();
+  await server?.stop();
+  await database?.close();
+});
+
+// A single-part file in a new channel, with its part not yet stored
+async function createPart(channelId?: number) {
+  const channel = channelId ?? (await storage.createChannel({
+    discord_channel_id: `channel-${Date.now()}-${Math.random()}`,
+    name: 'test',
+    backend: 'local',
+  })).id;
+  const file = await storage.createFile({
+    filename: 'file.bin',
+    original_filename: 'file.bin',
+    size_bytes: 4,
+    channel_id: channel,
+  });
+  const part = await storage.createFilePart({ file_id: file.id, part_number: 1, size_bytes: 4, sha256: 'hash' });
+  return { channelId: channel, fileId: file.id, partId: part.id };
+}
+
+async function getPart(fileId: number) {
+  const [part] = await storage.getFileParts(fileId);
+  return part;
+}
+
+describe('shared chunk reference counting', () => {
+  it('counts every part that reuses a chunk', async () => {
+    const first = await createPart();
+    const sharedChunk = await storage.createSharedChunk(first.partId, {
+      channel_id: first.channelId,
+      sha256: 'hash',
+      size_bytes: 4,
+      chunk_id: 'chunk-1',
+      attachment_index: 2,
+      filename: 'file.bin',
+    });
+    assert.equal(sharedChunk.ref_count, 1);
+    assert.equal((await getPart(first.fileId)).shared_chunk_id, sharedChunk.id);
+
+    const second = await createPart(first.channelId);
+    const reused = await storage.reuseSharedChunk(second.partId, sharedChunk.id);
+    assert.equal(reused?.ref_count, 2);
+
+    // The reusing part points at the chunk's message and position
+    const part = await getPart(second.fileId);
+    assert.equal(part.discord_message_id, 'chunk-1');
+    assert.equal(part.attachment_index, 2);
+    assert.equal(part.shared_chunk_id, sharedChunk.id);
+    assert.equal(part.upload_complete, true);
+  });
+
+  it('forgets a chunk once its last reference is released', async () => {
+    const first = await createPart();
+    const sharedChunk = await storage.createSharedChunk(first.partId, {
+      channel_id: first.channelId,
+      sha256: 'hash',
+      size_bytes: 4,
+      chunk_id: 'chunk-2',
+      filename: 'file.bin',
+    });
+    const second = await createPart(first.channelId);
+    await storage.reuseSharedChunk(second.partId, sharedChunk.id);
+
+    await storage.releaseSharedChunk(first.partId);
+    assert.equal((await storage.getSharedChunk(sharedChunk.id))?.ref_count, 1);
+    assert.equal((await getPart(first.fileId)).shared_chunk_id, null);
+
+    // Releasing a part that no longer refers to the chunk changes nothing
+    await storage.releaseSharedChunk(first.partId);
+    assert.equal((await storage.getSharedChunk(sharedChunk.id))?.ref_count, 1);
+
+    await storage.releaseSharedChunk(second.partId);
+    assert.equal(await storage.getSharedChunk(sharedChunk.id), undefined);
+  });
+
+  it('does not revive a chunk that lost its last reference', async () => {
+    const first = await createPart();
+    const sharedChunk = await storage.createSharedChunk(first.partId, {
+      channel_id: first.channelId,
+      sha256: 'hash',
+      size_bytes: 4,
+      chunk_id: 'chunk-3',
+      filename: 'file.bin',
+    });
+    await storage.releaseSharedChunk(first.partId);
+
+    const second = await createPart(first.channelId);
+    assert.equal(await storage.reuseSharedChunk(second.partId, sharedChunk.id), undefined);
+    assert.equal((await getPart(second.fileId)).shared_chunk_id, null);
+  });
+
+  it('drops the references of a deleted file', async () => {
+    const first = await createPart();
+    const sharedChunk = await storage.createSharedChunk(first.partId, {
+      channel_id: first.channelId,
+      sha256: 'hash',
+      size_bytes: 4,
+      chunk_id: 'chunk-4',
+      filename: 'file.bin',
+    });
+    const second = await createPart(first.channelId);
+    await storage.reuseSharedChunk(second.partId, sharedChunk.id);
+
+    await storage.deleteFile(second.fileId);
+    assert.equal((await storage.getSharedChunk(sharedChunk.id))?.ref_count, 1);
+    await storage.deleteFile(first.fileId);
+    assert.equal(await storage.getSharedChunk(sharedChunk.id), undefined);
+  });
+});
@@ -1,8 +1,14 @@
 import { 
   users, type User, type InsertUser,
   channels, type Channel, type InsertChannel,
+  channelGroups, type ChannelGroup, type InsertChannelGroup,
   files, type File, type InsertFile,
   fileParts, type FilePart, type InsertFilePart,
+  filePartReplicas, type FilePartReplica, type InsertFilePartReplica,
+  fileParityParts, type FileParityPart, type InsertFileParityPart,
+  sharedChunks, type SharedChunk, type InsertSharedChunk,
+  scrubResults, type ScrubResult, type InsertScrubResult,
+  pendingDeletions, type PendingDeletion, type InsertPendingDeletion,
   userProfiles, type UserProfile, type InsertUserProfile,
   savedCredentials, type SavedCredentials, type InsertSavedCredentials,
   fileOperationsHistory, type FileOperationsHistory, type InsertFileOperationsHistory,
@@ -10,7 +16,7 @@ import {
   batchOperations, type BatchOperations, type InsertBatchOperations,
   batchOperationItems, type BatchOperationItems, type InsertBatchOperationItems
 } from "@shared/schema";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { eq, desc, and, gt, lt, sql, inArray, isNotNull } from "drizzle-orm";
 import { db } from "./db";
 
 // Enhanced storage interface for file management
@@ -26,20 +32,70 @@ export interface IStorage {
   // Channel methods
   getChannel(id: number): Promise<Channel | undefined>;
   getChannelByDiscordId(discordId: string): Promise<Channel | undefined>;
+  getChannelByWebhookUrl(webhookUrl: string): Promise<Channel | undefined>;
+  getAllChannels(): Promise<Channel[]>;
   createChannel(channel: InsertChannel): Promise<Channel>;
+  updateChannel(id: number, updates: Partial<Channel>): Promise<Channel>;
   updateChannelLastUsed(id: number): Promise<void>;
+  getChannelsByGroup(groupId: number): Promise<Channel[]>;
+  
+  // Channel group methods
+  getChannelGroup(id: number): Promise<ChannelGroup | undefined>;
+  getAllChannelGroups(): Promise<ChannelGroup[]>;
+  createChannelGroup(group: InsertChannelGroup): Promise<ChannelGroup>;
+  deleteChannelGroup(id: number): Promise<void>;
   
   // File methods
   getFile(id: number): Promise<File | undefined>;
   getFileByShareId(shareId: string): Promise<File | undefined>;
+  getFileByName(channelId: number, filename: string): Promise<File | undefined>;
   createFile(file: InsertFile): Promise<File>;
+  updateFile(id: number, updates: Partial<File>): Promise<File>;
   updateFileUploadComplete(id: number, messageId: string): Promise<void>;
   listFilesByChannel(channelId: number, limit?: number): Promise<File[]>;
+  listCompletedFiles(afterId: number, limit: number): Promise<File[]>;
+  listIncompleteFiles(createdBefore: Date): Promise<File[]>;
+  getReferencedChunkIds(channelId: number): Promise<Set<string>>;
+  deleteFile(id: number): Promise<void>;
+  getFileOwnerId(fileId: number): Promise<number | null>;
   
   // File parts methods
   getFileParts(fileId: number): Promise<FilePart[]>;
   createFilePart(filePart: InsertFilePart): Promise<FilePart>;
-  updateFilePartUploadComplete(id: number, messageId: string): Promise<void>;
+  updateFilePart(id: number, updates: Partial<FilePart>): Promise<FilePart>;
+  updateFilePartUploadComplete(id: number, messageId: string, attachmentIndex?: number): Promise<void>;
+  
+  // File parity part methods
+  getFileParityParts(fileId: number): Promise<FileParityPart[]>;
+  createFileParityPart(parityPart: InsertFileParityPart): Promise<FileParityPart>;
+  updateFileParityPart(id: number, updates: Partial<FileParityPart>): Promise<FileParityPart>;
+  updateFileParityPartUploadComplete(id: number, messageId: string): Promise<void>;
+  
+  // File part replica methods
+  getFilePartReplicas(fileId: number): Promise<FilePartReplica[]>;
+  createFilePartReplica(replica: InsertFilePartReplica): Promise<FilePartReplica>;
+  deleteFilePartReplica(id: number): Promise<void>;
+  getUnderReplicatedFiles(): Promise<{ file: File; min_copies: number }[]>;
+  
+  // Shared chunk methods
+  getSharedChunk(id: number): Promise<SharedChunk | undefined>;
+  findSharedChunks(channelId: number, sha256: string, sizeBytes: number): Promise<SharedChunk[]>;
+  getSharedChunksByChunkId(channelId: number, chunkId: string): Promise<SharedChunk[]>;
+  getLiveSharedChunkIds(channelId: number, chunkIds: string[]): Promise<Set<string>>;
+  createSharedChunk(partId: number, chunk: InsertSharedChunk): Promise<SharedChunk>;
+  reuseSharedChunk(partId: number, sharedChunkId: number): Promise<SharedChunk | undefined>;
+  releaseSharedChunk(partId: number): Promise<void>;
+  
+  // Scrub result methods
+  saveScrubResult(result: InsertScrubResult): Promise<ScrubResult>;
+  getScrubResults(status?: ScrubResult['status']): Promise<{ result: ScrubResult; file: File }[]>;
+  getScrubStatusCounts(): Promise<Record<ScrubResult['status'], number>>;
+  
+  // Pending deletion methods
+  createPendingDeletion(deletion: InsertPendingDeletion): Promise<PendingDeletion>;
+  getPendingDeletions(): Promise<PendingDeletion[]>;
+  updatePendingDeletion(id: number, updates: Partial<PendingDeletion>): Promise<PendingDeletion>;
+  deletePendingDeletion(id: number): Promise<void>;
   
   // User profile methods
   getUserProfile(userId: number): Promise<UserProfile | undefined>;
@@ -121,17 +177,68 @@ export class DatabaseStorage implements IStorage {
     return channel;
   }
   
+  async getChannelByWebhookUrl(webhookUrl: string): Promise<Channel | undefined> {
+    const [channel] = await db.select()
+      .from(channels)
+      .where(eq(channels.webhook_url, webhookUrl));
+    return channel;
+  }
+  
+  async getAllChannels(): Promise<Channel[]> {
+    return db.select().from(channels).orderBy(desc(channels.last_used));
+  }
+  
   async createChannel(channel: InsertChannel): Promise<Channel> {
     const [newChannel] = await db.insert(channels).values(channel).returning();
     return newChannel;
   }
   
+  async updateChannel(id: number, updates: Partial<Channel>): Promise<Channel> {
+    const [updated] = await db.update(channels)
+      .set(updates)
+      .where(eq(channels.id, id))
+      .returning();
+    return updated;
+  }
+  
   async updateChannelLastUsed(id: number): Promise<void> {
     await db.update(channels)
       .set({ last_used: new Date() })
       .where(eq(channels.id, id));
   }
   
+  // Group members in a stable order, so part N always maps to the same channel
+  async getChannelsByGroup(groupId: number): Promise<Channel[]> {
+    return db.select()
+      .from(channels)
+      .where(eq(channels.group_id, groupId))
+      .orderBy(channels.id);
+  }
+  
+  // Channel group methods
+  async getChannelGroup(id: number): Promise<ChannelGroup | undefined> {
+    const [group] = await db.select().from(channelGroups).where(eq(channelGroups.id, id));
+    return group;
+  }
+  
+  async getAllChannelGroups(): Promise<ChannelGroup[]> {
+    return db.select().from(channelGroups).orderBy(channelGroups.name);
+  }
+  
+  async createChannelGroup(group: InsertChannelGroup): Promise<ChannelGroup> {
+    const [newGroup] = await db.insert(channelGroups).values(group).returning();
+    return newGroup;
+  }
+  
+  // Members are ungrouped rather than deleted; parts already striped across
+  // them keep pointing at their channels
+  async deleteChannelGroup(id: number): Promise<void> {
+    await db.update(channels)
+      .set({ group_id: null })
+      .where(eq(channels.group_id, id));
+    await db.delete(channelGroups).where(eq(channelGroups.id, id));
+  }
+  
   // File methods
   async getFile(id: number): Promise<File | undefined> {
     const [file] = await db.select().from(files).where(eq(files.id, id));
@@ -143,11 +250,33 @@ export class DatabaseStorage implements IStorage {
     return file;
   }
   
+  // Most recent completed upload of a name in a channel
+  async getFileByName(channelId: number, filename: string): Promise<File | undefined> {
+    const [file] = await db.select()
+      .from(files)
+      .where(and(
+        eq(files.channel_id, channelId),
+        eq(files.original_filename, filename),
+        eq(files.upload_complete, true)
+      ))
+      .orderBy(desc(files.created_at))
+      .limit(1);
+    return file;
+  }
+  
   async createFile(file: InsertFile): Promise<File> {
     const [newFile] = await db.insert(files).values(file).returning();
     return newFile;
   }
   
+  async updateFile(id: number, updates: Partial<File>): Promise<File> {
+    const [updatedFile] = await db.update(files)
+      .set(updates)
+      .where(eq(files.id, id))
+      .returning();
+    return updatedFile;
+  }
+  
   async updateFileUploadComplete(id: number, messageId: string): Promise<void> {
     await db.update(files)
       .set({ 
@@ -165,6 +294,83 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
   
+  // Completed files in ID order, for jobs that walk every file
+  async listCompletedFiles(afterId: number, limit: number): Promise<File[]> {
+    return db.select()
+      .from(files)
+      .where(and(eq(files.upload_complete, true), gt(files.id, afterId)))
+      .orderBy(files.id)
+      .limit(limit);
+  }
+  
+  // Uploads that never finished, oldest first
+  async listIncompleteFiles(createdBefore: Date): Promise<File[]> {
+    return db.select()
+      .from(files)
+      .where(and(eq(files.upload_complete, false), lt(files.created_at, createdBefore)))
+      .orderBy(files.created_at);
+  }
+  
+  // Every chunk ID the database records in a channel: primary chunks,
+  // parts, replicas, parity chunks and manifests
+  async getReferencedChunkIds(channelId: number): Promise<Set<string>> {
+    const fileChunks = await db.select({ chunk_id: files.discord_message_id, manifest_id: files.manifest_message_id })
+      .from(files)
+      .where(eq(files.channel_id, channelId));
+    const partChunks = await db.select({ chunk_id: fileParts.discord_message_id })
+      .from(fileParts)
+      .innerJoin(files, eq(fileParts.file_id, files.id))
+      .where(sql`coalesce(${fileParts.channel_id}, ${files.channel_id}) = ${channelId}`);
+    const replicaChunks = await db.select({ chunk_id: filePartReplicas.chunk_id })
+      .from(filePartReplicas)
+      .where(eq(filePartReplicas.channel_id, channelId));
+    const parityChunks = await db.select({ chunk_id: fileParityParts.discord_message_id })
+      .from(fileParityParts)
+      .where(eq(fileParityParts.channel_id, channelId));
+    
+    const chunkIds = new Set<string>();
+    for (const row of [...fileChunks, ...partChunks, ...replicaChunks, ...parityChunks]) {
+      if (row.chunk_id) chunkIds.add(row.chunk_id);
+      if (row.manifest_id) chunkIds.add(row.manifest_id);
+    }
+    return chunkIds;
+  }
+  
+  // Remove a file and every row that belongs to it; its chunks are left to the caller
+  async deleteFile(id: number): Promise<void> {
+    await db.transaction(async (tx: any) => {
+      await tx.delete(filePartReplicas)
+        .where(inArray(filePartReplicas.part_id, tx.select({ id: fileParts.id }).from(fileParts).where(eq(fileParts.file_id, id))));
+      await tx.delete(fileParityParts).where(eq(fileParityParts.file_id, id));
+      await tx.delete(scrubResults).where(eq(scrubResults.file_id, id));
+      const sharedParts = await tx.select({ shared_chunk_id: fileParts.shared_chunk_id })
+        .from(fileParts)
+        .where(and(eq(fileParts.file_id, id), isNotNull(fileParts.shared_chunk_id)));
+      await tx.delete(fileParts).where(eq(fileParts.file_id, id));
+      for (const part of sharedParts) {
+        await this.dropSharedChunkReference(tx, part.shared_chunk_id);
+      }
+      await tx.delete(fileOperationsHistory).where(eq(fileOperationsHistory.file_id, id));
+      await tx.delete(fileEncryptionKeys).where(eq(fileEncryptionKeys.file_id, id));
+      // Batches keep their items, just without the file
+      await tx.update(batchOperationItems).set({ file_id: null }).where(eq(batchOperationItems.file_id, id));
+      await tx.delete(files).where(eq(files.id, id));
+    });
+  }
+  
+  // The user who uploaded or imported a file, from the operations history
+  async getFileOwnerId(fileId: number): Promise<number | null> {
+    const [operation] = await db.select({ user_id: fileOperationsHistory.user_id })
+      .from(fileOperationsHistory)
+      .where(and(
+        eq(fileOperationsHistory.file_id, fileId),
+        inArray(fileOperationsHistory.operation_type, ['upload', 'import'])
+      ))
+      .orderBy(fileOperationsHistory.timestamp)
+      .limit(1);
+    return operation?.user_id ?? null;
+  }
+  
   // File parts methods
   async getFileParts(fileId: number): Promise<FilePart[]> {
     return db.select()
@@ -178,14 +384,256 @@ export class DatabaseStorage implements IStorage {
     return newFilePart;
   }
   
-  async updateFilePartUploadComplete(id: number, messageId: string): Promise<void> {
+  async updateFilePart(id: number, updates: Partial<FilePart>): Promise<FilePart> {
+    const [updatedFilePart] = await db.update(fileParts)
+      .set(updates)
+      .where(eq(fileParts.id, id))
+      .returning();
+    return updatedFilePart;
+  }
+  
+  async updateFilePartUploadComplete(id: number, messageId: string, attachmentIndex: number = 0): Promise<void> {
     await db.update(fileParts)
       .set({ 
         upload_complete: true,
-        discord_message_id: messageId
+        discord_message_id: messageId,
+        attachment_index: attachmentIndex
       })
       .where(eq(fileParts.id, id));
   }
+  
+  // File parity part methods
+  async getFileParityParts(fileId: number): Promise<FileParityPart[]> {
+    return db.select()
+      .from(fileParityParts)
+      .where(eq(fileParityParts.file_id, fileId))
+      .orderBy(fileParityParts.stripe_number, fileParityParts.shard_index);
+  }
+  
+  async createFileParityPart(parityPart: InsertFileParityPart): Promise<FileParityPart> {
+    const [newParityPart] = await db.insert(fileParityParts).values(parityPart).returning();
+    return newParityPart;
+  }
+  
+  async updateFileParityPart(id: number, updates: Partial<FileParityPart>): Promise<FileParityPart> {
+    const [updatedParityPart] = await db.update(fileParityParts)
+      .set(updates)
+      .where(eq(fileParityParts.id, id))
+      .returning();
+    return updatedParityPart;
+  }
+  
+  async updateFileParityPartUploadComplete(id: number, messageId: string): Promise<void> {
+    await db.update(fileParityParts)
+      .set({ 
+        upload_complete: true,
+        discord_message_id: messageId
+      })
+      .where(eq(fileParityParts.id, id));
+  }
+  
+  // File part replica methods
+  async getFilePartReplicas(fileId: number): Promise<FilePartReplica[]> {
+    const rows = await db.select({ replica: filePartReplicas })
+      .from(filePartReplicas)
+      .innerJoin(fileParts, eq(filePartReplicas.part_id, fileParts.id))
+      .where(eq(fileParts.file_id, fileId))
+      .orderBy(filePartReplicas.id);
+    return rows.map((row: { replica: FilePartReplica }) => row.replica);
+  }
+  
+  async createFilePartReplica(replica: InsertFilePartReplica): Promise<FilePartReplica> {
+    const [newReplica] = await db.insert(filePartReplicas).values(replica).returning();
+    return newReplica;
+  }
+  
+  async deleteFilePartReplica(id: number): Promise<void> {
+    await db.delete(filePartReplicas).where(eq(filePartReplicas.id, id));
+  }
+  
+  // Completed files where some part has fewer copies (primary plus replicas)
+  // than the file's replication factor
+  async getUnderReplicatedFiles(): Promise<{ file: File; min_copies: number }[]> {
+    const replicaCounts = db.select({
+      part_id: filePartReplicas.part_id,
+      copies: sql<number>`count(*)`.as('copies'),
+    })
+      .from(filePartReplicas)
+      .groupBy(filePartReplicas.part_id)
+      .as('replica_counts');
+    
+    const minCopies = sql<number>`min(1 + coalesce(${replicaCounts.copies}, 0))`;
+    
+    return db.select({ file: files, min_copies: minCopies.mapWith(Number) })
+      .from(files)
+      .innerJoin(fileParts, eq(fileParts.file_id, files.id))
+      .leftJoin(replicaCounts, eq(replicaCounts.part_id, fileParts.id))
+      .where(and(eq(files.upload_complete, true), eq(fileParts.upload_complete, true)))
+      .groupBy(files.id)
+      .having(sql`${minCopies} < ${files.replication_factor}`)
+      .orderBy(desc(files.created_at));
+  }
+  
+  // Shared chunk methods
+  
+  async getSharedChunk(id: number): Promise<SharedChunk | undefined> {
+    const [sharedChunk] = await db.select().from(sharedChunks).where(eq(sharedChunks.id, id));
+    return sharedChunk;
+  }
+  
+  // Chunks with these contents that parts still refer to, oldest first
+  async findSharedChunks(channelId: number, sha256: string, sizeBytes: number): Promise<SharedChunk[]> {
+    return db.select()
+      .from(sharedChunks)
+      .where(and(
+        eq(sharedChunks.channel_id, channelId),
+        eq(sharedChunks.sha256, sha256),
+        eq(sharedChunks.size_bytes, sizeBytes),
+        gt(sharedChunks.ref_count, 0)
+      ))
+      .orderBy(sharedChunks.id);
+  }
+  
+  // Every shared chunk stored under a chunk ID, as with the attachments of one message
+  async getSharedChunksByChunkId(channelId: number, chunkId: string): Promise<SharedChunk[]> {
+    return db.select()
+      .from(sharedChunks)
+      .where(and(eq(sharedChunks.channel_id, channelId), eq(sharedChunks.chunk_id, chunkId)))
+      .orderBy(sharedChunks.attachment_index);
+  }
+  
+  // Which of these chunk IDs still hold a chunk that some part refers to
+  async getLiveSharedChunkIds(channelId: number, chunkIds: string[]): Promise<Set<string>> {
+    if (chunkIds.length === 0) {
+      return new Set();
+    }
+    const rows = await db.select({ chunk_id: sharedChunks.chunk_id })
+      .from(sharedChunks)
+      .where(and(
+        eq(sharedChunks.channel_id, channelId),
+        inArray(sharedChunks.chunk_id, chunkIds),
+        gt(sharedChunks.ref_count, 0)
+      ));
+    return new Set(rows.map((row: { chunk_id: string }) => row.chunk_id));
+  }
+  
+  // Record a newly stored part as a shared chunk, with the part as its only reference
+  async createSharedChunk(partId: number, chunk: InsertSharedChunk): Promise<SharedChunk> {
+    return db.transaction(async (tx: any) => {
+      const [sharedChunk] = await tx.insert(sharedChunks).values(chunk).returning();
+      await tx.update(fileParts)
+        .set({ shared_chunk_id: sharedChunk.id })
+        .where(eq(fileParts.id, partId));
+      return sharedChunk;
+    });
+  }
+  
+  // Point a part at an existing shared chunk instead of storing it again.
+  // Returns nothing if the chunk lost its last reference in the meantime,
+  // as its message may already be on its way out
+  async reuseSharedChunk(partId: number, sharedChunkId: number): Promise<SharedChunk | undefined> {
+    return db.transaction(async (tx: any) => {
+      const [sharedChunk] = await tx.update(sharedChunks)
+        .set({ ref_count: sql`${sharedChunks.ref_count} + 1` })
+        .where(and(eq(sharedChunks.id, sharedChunkId), gt(sharedChunks.ref_count, 0)))
+        .returning();
+      if (!sharedChunk) {
+        return undefined;
+      }
+      await tx.update(fileParts)
+        .set({
+          upload_complete: true,
+          channel_id: sharedChunk.channel_id,
+          discord_message_id: sharedChunk.chunk_id,
+          attachment_index: sharedChunk.attachment_index,
+          shared_chunk_id: sharedChunk.id,
+        })
+        .where(eq(fileParts.id, partId));
+      return sharedChunk;
+    });
+  }
+  
+  // Detach a part from its shared chunk, as when the part moves to a replica
+  async releaseSharedChunk(partId: number): Promise<void> {
+    await db.transaction(async (tx: any) => {
+      const [part] = await tx.select({ shared_chunk_id: fileParts.shared_chunk_id })
+        .from(fileParts)
+        .where(eq(fileParts.id, partId));
+      if (!part?.shared_chunk_id) {
+        return;
+      }
+      await tx.update(fileParts).set({ shared_chunk_id: null }).where(eq(fileParts.id, partId));
+      await this.dropSharedChunkReference(tx, part.shared_chunk_id);
+    });
+  }
+  
+  // Count one reference less, forgetting the chunk after its last one
+  private async dropSharedChunkReference(tx: any, sharedChunkId: number): Promise<void> {
+    await tx.update(sharedChunks)
+      .set({ ref_count: sql`${sharedChunks.ref_count} - 1` })
+      .where(eq(sharedChunks.id, sharedChunkId));
+    await tx.delete(sharedChunks)
+      .where(and(eq(sharedChunks.id, sharedChunkId), lt(sharedChunks.ref_count, 1)));
+  }
+  
+  // Scrub result methods; each file keeps only its latest result
+  async saveScrubResult(result: InsertScrubResult): Promise<ScrubResult> {
+    const [saved] = await db.insert(scrubResults)
+      .values(result)
+      .onConflictDoUpdate({
+        target: scrubResults.file_id,
+        set: { ...result, checked_at: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+  
+  async getScrubResults(status?: ScrubResult['status']): Promise<{ result: ScrubResult; file: File }[]> {
+    return db.select({ result: scrubResults, file: files })
+      .from(scrubResults)
+      .innerJoin(files, eq(scrubResults.file_id, files.id))
+      .where(status ? eq(scrubResults.status, status) : undefined)
+      .orderBy(desc(scrubResults.checked_at));
+  }
+  
+  async getScrubStatusCounts(): Promise<Record<ScrubResult['status'], number>> {
+    const rows = await db.select({
+      status: scrubResults.status,
+      count: sql<number>`count(*)::int`,
+    })
+      .from(scrubResults)
+      .groupBy(scrubResults.status);
+    
+    const counts: Record<ScrubResult['status'], number> = { healthy: 0, missing: 0, corrupt: 0 };
+    rows.forEach((row: { status: ScrubResult['status']; count: number }) => {
+      counts[row.status] = row.count;
+    });
+    return counts;
+  }
+
+  // Pending deletion methods
+  async createPendingDeletion(deletion: InsertPendingDeletion): Promise<PendingDeletion> {
+    const [created] = await db.insert(pendingDeletions).values(deletion).returning();
+    return created;
+  }
+  
+  async getPendingDeletions(): Promise<PendingDeletion[]> {
+    return db.select()
+      .from(pendingDeletions)
+      .orderBy(pendingDeletions.created_at);
+  }
+  
+  async updatePendingDeletion(id: number, updates: Partial<PendingDeletion>): Promise<PendingDeletion> {
+    const [updated] = await db.update(pendingDeletions)
+      .set(updates)
+      .where(eq(pendingDeletions.id, id))
+      .returning();
+    return updated;
+  }
+  
+  async deletePendingDeletion(id: number): Promise<void> {
+    await db.delete(pendingDeletions).where(eq(pendingDeletions.id, id));
+  }
 
   // User profile methods
   async getUserProfile(userId: number): Promise<UserProfile | undefined> {
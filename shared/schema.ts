@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, uuid, pgEnum, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, timestamp, uuid, pgEnum, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -26,18 +26,57 @@ export type User = typeof users.$inferSelect;
 // File type enum
 export const fileTypeEnum = pgEnum("file_type", ["normal", "large_chunked"]);
 
+// Where a channel's file chunks are stored
+export const storageBackendEnum = pgEnum("storage_backend", ["discord", "local"]);
+
+export type StorageBackendKind = typeof storageBackendEnum.enumValues[number];
+
+// Codecs a file's bytes can be compressed with before they are split into parts
+export const compressionCodecEnum = pgEnum("compression_codec", ["gzip", "brotli", "zstd"]);
+
+export type CompressionCodec = typeof compressionCodecEnum.enumValues[number];
+
+// Outcome of checking a file's stored chunks
+export const scrubStatusEnum = pgEnum("scrub_status", ["healthy", "missing", "corrupt"]);
+
+// Channel groups - chunks of a file uploaded to a grouped channel are
+// striped round-robin across every channel in the group
+export const channelGroups = pgTable("channel_groups", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+export const insertChannelGroupSchema = createInsertSchema(channelGroups).pick({
+  name: true,
+});
+
+export type InsertChannelGroup = z.infer<typeof insertChannelGroupSchema>;
+export type ChannelGroup = typeof channelGroups.$inferSelect;
+
 // Channels table
 export const channels = pgTable("channels", {
   id: serial("id").primaryKey(),
+  // For local channels this is the name of the channel's storage directory
   discord_channel_id: text("discord_channel_id").notNull().unique(),
   name: text("name"),
+  backend: storageBackendEnum("backend").notNull().default("discord"),
+  // Registered webhook; uploads go through it so no bot token is needed.
+  // The URL embeds the webhook's secret, so never send it back to clients
+  webhook_url: text("webhook_url"),
+  group_id: integer("group_id").references(() => channelGroups.id),
   created_at: timestamp("created_at").defaultNow(),
   last_used: timestamp("last_used").defaultNow(),
+  // Codec uploads to the channel are compressed with unless they pick one; null for none
+  compression: compressionCodecEnum("compression"),
 });
 
 export const insertChannelSchema = createInsertSchema(channels).pick({
   discord_channel_id: true,
   name: true,
+  backend: true,
+  webhook_url: true,
+  group_id: true,
 });
 
 export type InsertChannel = z.infer<typeof insertChannelSchema>;
@@ -48,7 +87,7 @@ export const files = pgTable("files", {
   id: serial("id").primaryKey(),
   filename: text("filename").notNull(),
   original_filename: text("original_filename").notNull(),
-  size_bytes: integer("size_bytes").notNull(),
+  size_bytes: bigint("size_bytes", { mode: "number" }).notNull(),
   type: fileTypeEnum("type").notNull().default("normal"),
   channel_id: integer("channel_id").references(() => channels.id).notNull(),
   discord_message_id: text("discord_message_id"),
@@ -57,10 +96,33 @@ export const files = pgTable("files", {
   share_id: uuid("share_id").defaultRandom(),
   created_at: timestamp("created_at").defaultNow(),
   mime_type: text("mime_type"),
+  // Copies kept of every part, each in a different channel of the file's channel group
+  replication_factor: integer("replication_factor").notNull().default(1),
+  // Reed-Solomon layout of large_chunked files: every stripe of data_shards
+  // parts gets parity_shards parity chunks; 0 parity shards means no parity
+  data_shards: integer("data_shards").notNull().default(0),
+  parity_shards: integer("parity_shards").notNull().default(0),
+  sha256: text("sha256"), // Hex SHA-256 of the whole file; null for files uploaded before hashing
+  // Size every part but the last was cut to; files from before it was
+  // recorded all used 9MB parts
+  chunk_size: integer("chunk_size").notNull().default(9 * 1024 * 1024),
+  // Chunk ID of the JSON manifest describing the file, in the file's channel
+  manifest_message_id: text("manifest_message_id"),
+  // Codec the stored bytes are compressed with; null for none. size_bytes
+  // and sha256 describe the file as uploaded, parts the compressed bytes
+  compression: compressionCodecEnum("compression"),
 });
 
-export const channelsRelations = relations(channels, ({ many }) => ({
+export const channelsRelations = relations(channels, ({ one, many }) => ({
   files: many(files),
+  group: one(channelGroups, {
+    fields: [channels.group_id],
+    references: [channelGroups.id],
+  }),
+}));
+
+export const channelGroupsRelations = relations(channelGroups, ({ many }) => ({
+  channels: many(channels),
 }));
 
 export const filesRelations = relations(files, ({ one }) => ({
@@ -75,9 +137,18 @@ export const fileParts = pgTable("file_parts", {
   id: serial("id").primaryKey(),
   file_id: integer("file_id").references(() => files.id).notNull(),
   part_number: integer("part_number").notNull(),
-  size_bytes: integer("size_bytes").notNull(),
-  discord_message_id: text("discord_message_id"),
+  size_bytes: bigint("size_bytes", { mode: "number" }).notNull(),
+  discord_message_id: text("discord_message_id"), // Chunk ID from the channel's storage backend
   upload_complete: boolean("upload_complete").default(false),
+  // Channel holding this part; null means the file's own channel
+  channel_id: integer("channel_id").references(() => channels.id),
+  sha256: text("sha256"), // Hex SHA-256 of the part, shared by its replicas
+  // Position among the chunks stored under the same chunk ID, as when
+  // several parts are attachments of one Discord message
+  attachment_index: integer("attachment_index").notNull().default(0),
+  // Shared chunk holding the part; null for parts that cannot be shared,
+  // such as those stored before chunks were deduplicated
+  shared_chunk_id: integer("shared_chunk_id").references(() => sharedChunks.id),
 });
 
 export const filePartsRelations = relations(fileParts, ({ one }) => ({
@@ -91,6 +162,97 @@ export const filesFilePartsRelations = relations(files, ({ many }) => ({
   parts: many(fileParts),
 }));
 
+// Chunks addressed by their SHA-256, so identical parts of different files
+// are stored once per channel. A chunk's message is only deleted once no
+// part refers to it any more
+export const sharedChunks = pgTable("shared_chunks", {
+  id: serial("id").primaryKey(),
+  channel_id: integer("channel_id").references(() => channels.id).notNull(),
+  sha256: text("sha256").notNull(), // Hex SHA-256 of the chunk
+  size_bytes: bigint("size_bytes", { mode: "number" }).notNull(),
+  chunk_id: text("chunk_id").notNull(), // Chunk ID from the channel's storage backend
+  attachment_index: integer("attachment_index").notNull().default(0),
+  filename: text("filename").notNull(), // Name the chunk was stored under
+  ref_count: integer("ref_count").notNull().default(1), // Parts referring to the chunk
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Extra copies of file parts; the primary copy stays on the file_parts row
+export const filePartReplicas = pgTable("file_part_replicas", {
+  id: serial("id").primaryKey(),
+  part_id: integer("part_id").references(() => fileParts.id).notNull(),
+  channel_id: integer("channel_id").references(() => channels.id).notNull(),
+  chunk_id: text("chunk_id").notNull(), // Chunk ID from the channel's storage backend
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+export const filePartReplicasRelations = relations(filePartReplicas, ({ one }) => ({
+  part: one(fileParts, {
+    fields: [filePartReplicas.part_id],
+    references: [fileParts.id],
+  }),
+  channel: one(channels, {
+    fields: [filePartReplicas.channel_id],
+    references: [channels.id],
+  }),
+}));
+
+// Reed-Solomon parity chunks; any data_shards chunks of a stripe, data or
+// parity, are enough to rebuild its data parts
+export const fileParityParts = pgTable("file_parity_parts", {
+  id: serial("id").primaryKey(),
+  file_id: integer("file_id").references(() => files.id).notNull(),
+  stripe_number: integer("stripe_number").notNull(), // Stripe N covers data parts (N-1)*k+1 to N*k
+  shard_index: integer("shard_index").notNull(), // 0 to parity_shards - 1
+  size_bytes: bigint("size_bytes", { mode: "number" }).notNull(), // Length of the stripe's longest data part
+  discord_message_id: text("discord_message_id"), // Chunk ID from the channel's storage backend
+  upload_complete: boolean("upload_complete").default(false),
+  channel_id: integer("channel_id").references(() => channels.id).notNull(),
+  sha256: text("sha256"), // Hex SHA-256 of the parity chunk
+});
+
+export const fileParityPartsRelations = relations(fileParityParts, ({ one }) => ({
+  file: one(files, {
+    fields: [fileParityParts.file_id],
+    references: [files.id],
+  }),
+}));
+
+// Latest integrity check of each file; every chunk copy and parity chunk is
+// checked, so a missing replica shows up even while the file is readable
+export const scrubResults = pgTable("scrub_results", {
+  id: serial("id").primaryKey(),
+  file_id: integer("file_id").references(() => files.id).notNull().unique(),
+  status: scrubStatusEnum("status").notNull(),
+  chunks_checked: integer("chunks_checked").notNull(),
+  chunks_missing: integer("chunks_missing").notNull().default(0),
+  chunks_corrupt: integer("chunks_corrupt").notNull().default(0),
+  checksums_verified: boolean("checksums_verified").notNull().default(false),
+  details: jsonb("details").default([]), // One line per missing or corrupt chunk
+  checked_at: timestamp("checked_at").defaultNow(),
+});
+
+export const scrubResultsRelations = relations(scrubResults, ({ one }) => ({
+  file: one(files, {
+    fields: [scrubResults.file_id],
+    references: [files.id],
+  }),
+}));
+
+// Chunks of deleted files that could not be deleted from their channel; they
+// are retried later, as the file rows referring to them are already gone
+export const pendingDeletions = pgTable("pending_deletions", {
+  id: serial("id").primaryKey(),
+  channel_id: integer("channel_id").references(() => channels.id).notNull(),
+  chunk_id: text("chunk_id").notNull(), // Chunk ID from the channel's storage backend
+  file_id: integer("file_id"), // The deleted file; no reference, as its row is gone
+  filename: text("filename"),
+  attempts: integer("attempts").notNull().default(1),
+  last_error: text("last_error"),
+  created_at: timestamp("created_at").defaultNow(),
+  last_attempt_at: timestamp("last_attempt_at").defaultNow(),
+});
+
 // Insert schemas
 export const insertFileSchema = createInsertSchema(files).omit({
   id: true,
@@ -102,12 +264,53 @@ export const insertFilePartSchema = createInsertSchema(fileParts).omit({
   id: true,
 });
 
+export const insertFileParityPartSchema = createInsertSchema(fileParityParts).omit({
+  id: true,
+});
+
+export const insertSharedChunkSchema = createInsertSchema(sharedChunks).omit({
+  id: true,
+  ref_count: true,
+  created_at: true,
+});
+
+export const insertScrubResultSchema = createInsertSchema(scrubResults).omit({
+  id: true,
+  checked_at: true,
+});
+
+export const insertPendingDeletionSchema = createInsertSchema(pendingDeletions).omit({
+  id: true,
+  created_at: true,
+  last_attempt_at: true,
+});
+
+export const insertFilePartReplicaSchema = createInsertSchema(filePartReplicas).omit({
+  id: true,
+  created_at: true,
+});
+
 export type InsertFile = z.infer<typeof insertFileSchema>;
 export type File = typeof files.$inferSelect;
 
 export type InsertFilePart = z.infer<typeof insertFilePartSchema>;
 export type FilePart = typeof fileParts.$inferSelect;
 
+export type InsertFileParityPart = z.infer<typeof insertFileParityPartSchema>;
+export type FileParityPart = typeof fileParityParts.$inferSelect;
+
+export type InsertSharedChunk = z.infer<typeof insertSharedChunkSchema>;
+export type SharedChunk = typeof sharedChunks.$inferSelect;
+
+export type InsertScrubResult = z.infer<typeof insertScrubResultSchema>;
+export type ScrubResult = typeof scrubResults.$inferSelect;
+
+export type InsertPendingDeletion = z.infer<typeof insertPendingDeletionSchema>;
+export type PendingDeletion = typeof pendingDeletions.$inferSelect;
+
+export type InsertFilePartReplica = z.infer<typeof insertFilePartReplicaSchema>;
+export type FilePartReplica = typeof filePartReplicas.$inferSelect;
+
 // User profiles table - for storing user preferences and settings
 export const userProfiles = pgTable("user_profiles", {
   id: serial("id").primaryKey(),